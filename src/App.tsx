@@ -11,6 +11,8 @@ const GroupsList = lazy(() => import('./components/GroupsList').then(m => ({ def
 const GroupDetails = lazy(() => import('./components/GroupDetails').then(m => ({ default: m.GroupDetails })));
 const JoinPage = lazy(() => import('./components/JoinPage').then(m => ({ default: m.JoinPage })));
 const JoinByCode = lazy(() => import('./components/JoinByCode').then(m => ({ default: m.JoinByCode })));
+const FriendsList = lazy(() => import('./components/FriendsList').then(m => ({ default: m.FriendsList })));
+const StatementPage = lazy(() => import('./components/StatementPage').then(m => ({ default: m.StatementPage })));
 
 const LoadingSpinner = () => (
   <div className="min-h-screen bg-gray-900 flex items-center justify-center">
@@ -112,6 +114,30 @@ function App() {
                 </PrivateRoute>
               }
             />
+            <Route
+              path="/groups/:groupId/statement"
+              element={
+                <PrivateRoute>
+                  <Layout>
+                    <Suspense fallback={<SkeletonLoader />}>
+                      <StatementPage />
+                    </Suspense>
+                  </Layout>
+                </PrivateRoute>
+              }
+            />
+            <Route
+              path="/friends"
+              element={
+                <PrivateRoute>
+                  <Layout>
+                    <Suspense fallback={<SkeletonLoader />}>
+                      <FriendsList />
+                    </Suspense>
+                  </Layout>
+                </PrivateRoute>
+              }
+            />
             <Route
               path="/join"
               element={
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import type { Balance, Group, GroupArchive, User } from '../types';
+import { archiveGroup, unarchiveGroup } from '../services/firebaseService';
+import { formatMoney } from '../utils/money';
+
+interface ArchiveGroupPanelProps {
+  group: Group;
+  balances: Balance[] | null; // From the whole ledger, as archiving checks them; null while it loads
+  baseCurrency: string;
+  isAdmin: boolean;
+  user: Pick<User, 'uid' | 'name'>;
+  getMemberName: (memberId: string) => string;
+  onChange: (archived: GroupArchive | undefined) => void;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+export const ArchiveGroupPanel = ({
+  group,
+  balances,
+  baseCurrency,
+  isAdmin,
+  user,
+  getMemberName,
+  onChange,
+  showToast,
+}: ArchiveGroupPanelProps) => {
+  const [writeOff, setWriteOff] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleArchive = async () => {
+    if (!balances) return;
+    const message = balances.length > 0
+      ? `Archive "${group.name}" and write off ${balances.length} open balance${balances.length !== 1 ? 's' : ''}?`
+      : `Archive "${group.name}"? Its expenses and payments can't be changed until it's unarchived.`;
+    if (!window.confirm(message)) return;
+
+    try {
+      setSaving(true);
+      onChange(await archiveGroup(group.id, user, writeOff));
+      setWriteOff(false);
+      showToast('📦 Group archived', 'success');
+    } catch (error) {
+      console.error('Error archiving group:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to archive the group'}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnarchive = async () => {
+    try {
+      setSaving(true);
+      await unarchiveGroup(group.id, user);
+      onChange(undefined);
+      showToast('✅ Group unarchived', 'success');
+    } catch (error) {
+      console.error('Error unarchiving group:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to unarchive the group'}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBalances = (list: Balance[], verb: string) => (
+    <ul className="space-y-1 mb-3 text-xs sm:text-sm text-gray-300">
+      {list.map((balance) => (
+        <li key={`${balance.from}-${balance.to}`} className="flex justify-between gap-2">
+          <span>
+            <span className="text-white">{getMemberName(balance.from)}</span> {verb}{' '}
+            <span className="text-white">{getMemberName(balance.to)}</span>
+          </span>
+          <span>{formatMoney(balance.amount, baseCurrency)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (group.archived) {
+    const writtenOff = group.archived.writtenOff || [];
+    return (
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+        <h4 className="text-base sm:text-lg font-semibold text-white mb-1">Archived</h4>
+        <p className="text-gray-400 text-xs sm:text-sm mb-3">
+          Archived {group.archived.archivedAt.toLocaleDateString()} by {getMemberName(group.archived.archivedBy)}.
+          Expenses, payments and exchange rates can't be changed until the group is unarchived.
+        </p>
+        {writtenOff.length > 0 && (
+          <>
+            <p className="text-white text-sm font-semibold mb-1">Written off</p>
+            {renderBalances(writtenOff, 'owed')}
+            <p className="text-gray-500 text-xs mb-3">Unarchiving brings these balances back.</p>
+          </>
+        )}
+        {isAdmin ? (
+          <button
+            onClick={handleUnarchive}
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50 text-xs sm:text-sm"
+          >
+            {saving ? 'Unarchiving...' : 'Unarchive Group'}
+          </button>
+        ) : (
+          <p className="text-gray-500 text-xs">Only group admins can unarchive the group.</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+      <h4 className="text-base sm:text-lg font-semibold text-white mb-1">Archive Group</h4>
+      <p className="text-gray-400 text-xs sm:text-sm mb-3">
+        Moves the group out of your list and freezes its expenses, payments and exchange rates. Everyone has to be
+        settled up first, or the open balances written off.
+      </p>
+      {!isAdmin ? (
+        <p className="text-gray-500 text-xs">Only group admins can archive the group.</p>
+      ) : (
+        <>
+          {!balances && <p className="text-gray-500 text-xs mb-3">Loading balances...</p>}
+          {balances && balances.length > 0 && (
+            <>
+              <p className="text-white text-sm font-semibold mb-1">Open balances</p>
+              {renderBalances(balances, 'owes')}
+              <label className="flex items-start gap-2 text-xs sm:text-sm text-gray-300 mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={writeOff}
+                  onChange={(e) => setWriteOff(e.target.checked)}
+                  className="mt-0.5 accent-blue-600"
+                />
+                Write these off. Nobody will be asked to pay them while the group is archived.
+              </label>
+            </>
+          )}
+          <button
+            onClick={handleArchive}
+            disabled={saving || !balances || (balances.length > 0 && !writeOff)}
+            className="bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50 text-xs sm:text-sm"
+          >
+            {saving ? 'Archiving...' : balances && balances.length > 0 ? '📦 Archive and Write Off' : '📦 Archive Group'}
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import type { BalanceBreakdown } from '../utils/balanceCalculator';
+import { formatMoney } from '../utils/money';
+import { getPeriodLastDay } from '../utils/periods';
+
+interface BalanceBreakdownModalProps {
+  breakdown: BalanceBreakdown;
+  displayedAmount: number; // Amount shown on the Balances tab, which differs when debts are simplified
+  baseCurrency: string;
+  getMemberName: (memberId: string) => string;
+  onClose: () => void;
+}
+
+const formatSigned = (amount: number, currency: string) => {
+  return `${amount < 0 ? '−' : '+'}${formatMoney(Math.abs(amount), currency)}`;
+};
+
+export const BalanceBreakdownModal = ({
+  breakdown,
+  displayedAmount,
+  baseCurrency,
+  getMemberName,
+  onClose,
+}: BalanceBreakdownModalProps) => {
+  const fromName = getMemberName(breakdown.from);
+  const toName = getMemberName(breakdown.to);
+  const isSimplified = Math.abs(displayedAmount - breakdown.amount) >= 0.005;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg p-4 sm:p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg sm:text-xl font-bold mb-1">
+          Why {fromName} owes {toName} {formatMoney(displayedAmount, baseCurrency)}
+        </h3>
+        <p className="text-gray-400 text-xs sm:text-sm mb-4">
+          Amounts added to what {fromName} owes {toName}; negative amounts reduce it.
+        </p>
+
+        {breakdown.entries.length === 0 ? (
+          <p className="text-gray-400 text-sm py-2">No expenses or payments directly between these two members.</p>
+        ) : (
+          <div className="space-y-2 mb-4">
+            {breakdown.entries.map((entry) => {
+              const key = entry.type === 'expense'
+                ? `expense-${entry.expense.id}`
+                : entry.type === 'payment' ? `payment-${entry.payment.id}` : 'checkpoint';
+              const date = entry.type === 'expense'
+                ? entry.expense.date
+                : entry.type === 'payment' ? entry.payment.date : getPeriodLastDay(entry.endDate);
+              return (
+                <div key={key} className="flex justify-between items-start gap-3 p-2 sm:p-3 bg-gray-700 rounded-lg">
+                  <div className="min-w-0">
+                    {entry.type === 'checkpoint' ? (
+                      <>
+                        <p className="text-white text-sm sm:text-base">📒 Brought forward</p>
+                        <p className="text-gray-400 text-xs">Balance when the last period closed • {date.toLocaleDateString()}</p>
+                      </>
+                    ) : entry.type === 'expense' ? (
+                      <>
+                        <p className="text-white text-sm sm:text-base truncate">{entry.expense.title}</p>
+                        <p className="text-gray-400 text-xs">
+                          {entry.amount > 0
+                            ? `${fromName}'s share, paid by ${toName}`
+                            : `${toName}'s share, paid by ${fromName}`}
+                          {' • '}{date.toLocaleDateString()}
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <p className="text-white text-sm sm:text-base">
+                          💵 {getMemberName(entry.payment.from)} paid {getMemberName(entry.payment.to)}
+                        </p>
+                        <p className="text-gray-400 text-xs">
+                          Payment{entry.payment.note && ` • ${entry.payment.note}`} • {date.toLocaleDateString()}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                  <span className={`font-semibold text-sm sm:text-base flex-shrink-0 ${entry.amount > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {formatSigned(entry.amount, baseCurrency)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-between items-center border-t border-gray-700 pt-3">
+          <span className="text-gray-300 text-sm sm:text-base">Between {fromName} and {toName}</span>
+          <span className="text-lg sm:text-xl font-bold text-white">{formatSigned(breakdown.amount, baseCurrency)}</span>
+        </div>
+        {isSimplified && (
+          <p className="text-gray-400 text-xs sm:text-sm mt-2">
+            Debts are simplified in this group, so the amount shown on the Balances tab also includes debts netted
+            out through other members.
+          </p>
+        )}
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors text-sm sm:text-base"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import { useState } from 'react';
+import type { BalanceCheckpoint, Expense, Payment, User } from '../types';
+import { closeBalancePeriod, getFullGroupData } from '../services/firebaseService';
+import { minimizeTransactions } from '../utils/balanceCalculator';
+import { getLatestCheckpoint, getPeriodEntries, getPeriodLastDay } from '../utils/periods';
+import { toDateInput } from '../utils/dates';
+import { formatMoney } from '../utils/money';
+
+interface BalancePeriodsPanelProps {
+  groupId: string;
+  checkpoints: BalanceCheckpoint[];
+  baseCurrency: string;
+  simplifyDebts: boolean;
+  canClose: boolean; // Admins of groups that aren't archived
+  user: Pick<User, 'uid' | 'name'>;
+  getMemberName: (memberId: string) => string;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+export const BalancePeriodsPanel = ({
+  groupId,
+  checkpoints,
+  baseCurrency,
+  simplifyDebts,
+  canClose,
+  user,
+  getMemberName,
+  showToast,
+}: BalancePeriodsPanelProps) => {
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState('');
+  const [lastDay, setLastDay] = useState(toDateInput(new Date()));
+  const [closing, setClosing] = useState(false);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  // Closed periods are usually older than the expense list shows, so their
+  // entries come from the full ledger, read the first time one is opened
+  const [ledger, setLedger] = useState<{ expenses: Expense[]; payments: Payment[] } | null>(null);
+
+  const latest = getLatestCheckpoint(checkpoints);
+  const today = toDateInput(new Date());
+  const earliestLastDay = latest ? toDateInput(latest.endDate) : undefined;
+
+  const handleClose = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lastDay) return;
+    const lastDate = new Date(`${lastDay}T00:00:00`);
+    if (!window.confirm(`Close the period through ${lastDate.toLocaleDateString()}? Expenses and payments up to then can't be changed afterwards.`)) return;
+
+    try {
+      setClosing(true);
+      await closeBalancePeriod(groupId, name, lastDate, user);
+      showToast('📒 Period closed', 'success');
+      setShowForm(false);
+      setName('');
+      setLastDay(toDateInput(new Date()));
+    } catch (error) {
+      console.error('Error closing period:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to close the period'}`, 'error');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const toggleView = async (checkpointId: string) => {
+    setViewingId(viewingId === checkpointId ? null : checkpointId);
+    if (ledger) return;
+
+    try {
+      const data = await getFullGroupData(groupId);
+      setLedger({ expenses: data.expenses, payments: data.payments });
+    } catch (error) {
+      console.error('Error loading period entries:', error);
+      showToast('❌ Failed to load the period. Please try again.', 'error');
+    }
+  };
+
+  const inputClassName =
+    'bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+      <div className="flex justify-between items-start gap-3 mb-1">
+        <h3 className="text-lg sm:text-xl font-semibold">📒 Settle-up Periods</h3>
+        {canClose && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="text-xs sm:text-sm bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition-colors whitespace-nowrap"
+          >
+            Close Period
+          </button>
+        )}
+      </div>
+      <p className="text-gray-400 text-xs sm:text-sm mb-3">
+        {latest
+          ? `The current period started ${latest.endDate.toLocaleDateString()}, carrying over the balances from "${latest.name}".`
+          : 'Closing a period saves the balances at that point; the next period starts from them.'}
+      </p>
+
+      {showForm && (
+        <form onSubmit={handleClose} className="bg-gray-700 bg-opacity-50 rounded-lg p-3 mb-3 space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Period name, e.g. 2024"
+            maxLength={60}
+            className={`${inputClassName} w-full`}
+            autoFocus
+          />
+          <label className="flex flex-wrap items-center gap-2 text-gray-300 text-sm">
+            Last day
+            <input
+              type="date"
+              value={lastDay}
+              min={earliestLastDay}
+              max={today}
+              onChange={(e) => setLastDay(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              disabled={closing}
+              className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors disabled:opacity-50 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={closing || !name.trim() || !lastDay}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm"
+            >
+              {closing ? 'Closing...' : 'Close Period'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {checkpoints.length > 0 && (
+        <div className="space-y-2">
+          {checkpoints.map((checkpoint) => {
+            const closingBalances = simplifyDebts
+              ? minimizeTransactions(checkpoint.balances, checkpoint.baseCurrency)
+              : checkpoint.balances;
+            const entries = viewingId === checkpoint.id && ledger
+              ? getPeriodEntries(checkpoint, ledger.expenses, ledger.payments)
+              : null;
+            return (
+              <div key={checkpoint.id} className="bg-gray-700 rounded-lg p-3 border border-gray-600">
+                <button onClick={() => toggleView(checkpoint.id)} className="w-full flex justify-between items-start gap-2 text-left">
+                  <div className="min-w-0">
+                    <p className="text-white text-sm sm:text-base font-semibold truncate">{checkpoint.name}</p>
+                    <p className="text-gray-400 text-xs">
+                      {checkpoint.startDate ? `${checkpoint.startDate.toLocaleDateString()} – ` : 'Up to '}
+                      {getPeriodLastDay(checkpoint.endDate).toLocaleDateString()} • {checkpoint.expenseCount} expense
+                      {checkpoint.expenseCount !== 1 ? 's' : ''}, {checkpoint.paymentCount} payment
+                      {checkpoint.paymentCount !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <span className="text-blue-400 text-xs whitespace-nowrap">{viewingId === checkpoint.id ? 'Hide' : 'View'}</span>
+                </button>
+
+                {viewingId === checkpoint.id && (
+                  <div className="mt-3 space-y-3 text-xs sm:text-sm">
+                    <div>
+                      <p className="text-gray-300 font-semibold mb-1">Balances at the close</p>
+                      {closingBalances.length === 0 ? (
+                        <p className="text-gray-400">Everyone was settled up.</p>
+                      ) : (
+                        closingBalances.map((balance) => (
+                          <div key={`${balance.from}-${balance.to}`} className="flex justify-between gap-2 text-gray-300">
+                            <span>
+                              <span className="text-white">{getMemberName(balance.from)}</span> owed{' '}
+                              <span className="text-white">{getMemberName(balance.to)}</span>
+                            </span>
+                            <span>{formatMoney(balance.amount, checkpoint.baseCurrency)}</span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+
+                    {!entries ? (
+                      <p className="text-gray-400">Loading entries...</p>
+                    ) : (
+                      <div>
+                        <p className="text-gray-300 font-semibold mb-1">Expenses and payments</p>
+                        {entries.expenses.length === 0 && entries.payments.length === 0 && (
+                          <p className="text-gray-400">Nothing was recorded in this period.</p>
+                        )}
+                        {entries.expenses.map((expense) => (
+                          <div key={expense.id} className="flex justify-between gap-2 text-gray-300">
+                            <span className="truncate">
+                              {expense.date.toLocaleDateString()} • {expense.title}
+                            </span>
+                            <span className="whitespace-nowrap">{formatMoney(expense.amount, expense.currency || baseCurrency)}</span>
+                          </div>
+                        ))}
+                        {entries.payments.map((payment) => (
+                          <div key={payment.id} className="flex justify-between gap-2 text-gray-300">
+                            <span className="truncate">
+                              {payment.date.toLocaleDateString()} • 💵 {getMemberName(payment.from)} paid {getMemberName(payment.to)}
+                            </span>
+                            <span className="whitespace-nowrap">{formatMoney(payment.amount, payment.currency || baseCurrency)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+import { useState } from 'react';
+import type { Budget, Expense } from '../types';
+import { createBudget, updateBudget, deleteBudget } from '../services/firebaseService';
+import { getBudgetSpending } from '../utils/budgets';
+import { getCategory } from '../utils/categories';
+import { toDateInput } from '../utils/dates';
+import type { Category } from '../utils/categories';
+import { formatMoney, getAmountStep } from '../utils/money';
+
+interface BudgetsPanelProps {
+  groupId: string;
+  budgets: Budget[];
+  expenses: Expense[];
+  categories: Category[];
+  baseCurrency: string;
+  isAdmin: boolean;
+  userId: string;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+export const BudgetsPanel = ({
+  groupId,
+  budgets,
+  expenses,
+  categories,
+  baseCurrency,
+  isAdmin,
+  userId,
+  showToast,
+}: BudgetsPanelProps) => {
+  const [showForm, setShowForm] = useState(false);
+  const [editingBudgetId, setEditingBudgetId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState(''); // Empty means all categories
+  const [amount, setAmount] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  if (budgets.length === 0 && !isAdmin) return null;
+
+  const resetForm = () => {
+    setShowForm(false);
+    setEditingBudgetId(null);
+    setName('');
+    setCategory('');
+    setAmount('');
+    setStartDate('');
+    setEndDate('');
+  };
+
+  const startEditing = (budget: Budget) => {
+    setShowForm(true);
+    setEditingBudgetId(budget.id);
+    setName(budget.name);
+    setCategory(budget.category || '');
+    setAmount(budget.amount.toString());
+    setStartDate(toDateInput(budget.startDate));
+    setEndDate(toDateInput(budget.endDate));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const budgetAmount = parseFloat(amount);
+    if (!name.trim() || !(budgetAmount > 0) || !startDate || !endDate) {
+      showToast('Please enter a name, an amount and a date range', 'error');
+      return;
+    }
+
+    const fields = {
+      name: name.trim(),
+      category: category || undefined,
+      amount: budgetAmount,
+      startDate: new Date(`${startDate}T00:00:00`),
+      endDate: new Date(`${endDate}T23:59:59`),
+    };
+
+    try {
+      setSaving(true);
+      if (editingBudgetId) {
+        await updateBudget(groupId, editingBudgetId, fields);
+      } else {
+        await createBudget({ groupId, ...fields, createdBy: userId });
+      }
+      showToast('✅ Budget saved', 'success');
+      resetForm();
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to save budget'}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: Budget) => {
+    if (!window.confirm(`Delete the "${budget.name}" budget?`)) return;
+    try {
+      await deleteBudget(groupId, budget.id);
+      showToast('✅ Budget deleted', 'success');
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+      showToast('❌ Failed to delete budget. Please try again.', 'error');
+    }
+  };
+
+  const inputClassName =
+    'bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700 mb-4 sm:mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-base sm:text-lg font-semibold">🎯 Budgets</h3>
+        {isAdmin && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg transition-colors text-xs sm:text-sm"
+          >
+            + Add Budget
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-gray-700 rounded-lg p-3 sm:p-4 mb-3 space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Budget name, e.g. Lisbon trip"
+            className={`${inputClassName} w-full`}
+            required
+          />
+          <div className="flex flex-wrap gap-2">
+            <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClassName}>
+              <option value="">All categories</option>
+              {categories.map((option) => (
+                <option key={option.id} value={option.id}>{option.icon} {option.label}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step={getAmountStep(baseCurrency)}
+              min={getAmountStep(baseCurrency)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              placeholder={`Amount (${baseCurrency})`}
+              className={`${inputClassName} w-36`}
+              required
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-gray-300 text-sm">
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} required />
+            <span>to</span>
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} required />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm"
+            >
+              {saving ? 'Saving...' : editingBudgetId ? 'Update Budget' : 'Save Budget'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {budgets.length === 0 ? (
+        !showForm && <p className="text-gray-500 text-sm">No budgets yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {budgets.map((budget) => {
+            const spent = getBudgetSpending(budget, expenses, baseCurrency);
+            const percent = (spent / budget.amount) * 100;
+            const barColor = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+            const budgetCategory = budget.category ? getCategory(categories, budget.category) : null;
+            return (
+              <div key={budget.id} className="bg-gray-700 rounded-lg p-3">
+                <div className="flex justify-between items-start gap-2 mb-1">
+                  <div className="min-w-0">
+                    <p className="text-white font-semibold text-sm sm:text-base truncate">{budget.name}</p>
+                    <p className="text-gray-400 text-xs">
+                      {budgetCategory ? `${budgetCategory.icon} ${budgetCategory.label}` : 'All categories'} •{' '}
+                      {budget.startDate.toLocaleDateString()} – {budget.endDate.toLocaleDateString()}
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex gap-2 flex-shrink-0 text-xs sm:text-sm">
+                      <button onClick={() => startEditing(budget)} className="text-blue-400 hover:text-blue-300">
+                        Edit
+                      </button>
+                      <button onClick={() => handleDelete(budget)} className="text-red-400 hover:text-red-300">
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="w-full bg-gray-600 rounded-full h-2 my-2">
+                  <div className={`${barColor} h-2 rounded-full`} style={{ width: `${Math.min(percent, 100)}%` }} />
+                </div>
+                <p className="text-gray-300 text-xs sm:text-sm">
+                  {formatMoney(spent, baseCurrency)} of {formatMoney(budget.amount, baseCurrency)}
+                  <span className={percent >= 100 ? 'text-red-400' : percent >= 80 ? 'text-yellow-400' : 'text-gray-400'}>
+                    {' '}({Math.round(percent)}%)
+                  </span>
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
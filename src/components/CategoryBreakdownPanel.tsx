@@ -0,0 +1,93 @@
+import { useMemo, useState } from 'react';
+import type { Expense } from '../types';
+import { getCategory, getCategoryBreakdown } from '../utils/categories';
+import type { Category } from '../utils/categories';
+import { formatMoney } from '../utils/money';
+
+interface CategoryBreakdownPanelProps {
+  expenses: Expense[];
+  categories: Category[];
+  baseCurrency: string;
+  getMemberName: (memberId: string) => string;
+}
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+export const CategoryBreakdownPanel = ({ expenses, categories, baseCurrency, getMemberName }: CategoryBreakdownPanelProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const [view, setView] = useState<'member' | 'month'>('member');
+
+  const breakdown = useMemo(() => getCategoryBreakdown(expenses, baseCurrency), [expenses, baseCurrency]);
+  const grandTotal = breakdown.reduce((sum, entry) => sum + entry.total, 0);
+
+  if (breakdown.length === 0) return null;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700 mb-4 sm:mb-6">
+      <button onClick={() => setExpanded(!expanded)} className="w-full flex justify-between items-center text-left">
+        <h3 className="text-base sm:text-lg font-semibold">📊 Spending by Category</h3>
+        <span className="text-gray-400 text-sm">{expanded ? '▲' : '▼'}</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-3 sm:mt-4">
+          <div className="flex gap-2 mb-3">
+            {(['member', 'month'] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 rounded-full text-xs sm:text-sm transition-colors ${
+                  view === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {option === 'member' ? 'By member' : 'By month'}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            {breakdown.map((entry) => {
+              const category = getCategory(categories, entry.category);
+              const rows = view === 'member'
+                ? Object.entries(entry.byMember)
+                    .sort(([, a], [, b]) => b - a)
+                    .map(([memberId, amount]) => ({ key: memberId, label: getMemberName(memberId), amount }))
+                : Object.entries(entry.byMonth)
+                    .sort(([a], [b]) => b.localeCompare(a))
+                    .map(([month, amount]) => ({ key: month, label: formatMonth(month), amount }));
+              return (
+                <div key={entry.category} className="bg-gray-700 rounded-lg p-3">
+                  <div className="flex justify-between items-center mb-1">
+                    <span className="text-white font-semibold text-sm sm:text-base">
+                      {category.icon} {category.label}
+                    </span>
+                    <span className="text-green-400 font-semibold text-sm sm:text-base">
+                      {formatMoney(entry.total, baseCurrency)}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-600 rounded-full h-1.5 mb-2">
+                    <div
+                      className="bg-blue-500 h-1.5 rounded-full"
+                      style={{ width: `${grandTotal > 0 ? (entry.total / grandTotal) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <div className="space-y-0.5">
+                    {rows.map((row) => (
+                      <div key={row.key} className="flex justify-between text-xs sm:text-sm text-gray-300">
+                        <span>{row.label}</span>
+                        <span>{formatMoney(row.amount, baseCurrency)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
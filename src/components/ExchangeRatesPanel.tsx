@@ -0,0 +1,280 @@
+import { useCallback, useMemo, useState } from 'react';
+import type { BalanceCheckpoint, ExchangeRate, Expense, Payment } from '../types';
+import { createExchangeRate, updateExchangeRate, deleteExchangeRate } from '../services/firebaseService';
+import { calculateBalances, compareBalances } from '../utils/balanceCalculator';
+import { toDateInput } from '../utils/dates';
+import { applyExchangeRates } from '../utils/exchangeRates';
+import { formatMoney, SUPPORTED_CURRENCIES } from '../utils/money';
+
+interface ExchangeRatesPanelProps {
+  groupId: string;
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  expenses: Expense[];
+  payments: Payment[];
+  checkpoint?: BalanceCheckpoint; // Closed periods keep their balances whatever the rates say
+  isAdmin: boolean;
+  userId: string;
+  getMemberName: (memberId: string) => string;
+  showToast: (message: string, type?: 'success' | 'info' | 'error') => void;
+}
+
+export const ExchangeRatesPanel = ({
+  groupId,
+  baseCurrency,
+  rates,
+  expenses,
+  payments,
+  checkpoint,
+  isAdmin,
+  userId,
+  getMemberName,
+  showToast,
+}: ExchangeRatesPanelProps) => {
+  const [editingRateId, setEditingRateId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [fromCurrency, setFromCurrency] = useState('');
+  const [toCurrency, setToCurrency] = useState(baseCurrency);
+  const [rateValue, setRateValue] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(toDateInput(new Date()));
+  const [saving, setSaving] = useState(false);
+
+  const resetForm = () => {
+    setEditingRateId(null);
+    setShowForm(false);
+    setFromCurrency('');
+    setToCurrency(baseCurrency);
+    setRateValue('');
+    setEffectiveDate(toDateInput(new Date()));
+  };
+
+  const startEditing = (rate: ExchangeRate) => {
+    setEditingRateId(rate.id);
+    setShowForm(true);
+    setFromCurrency(rate.fromCurrency);
+    setToCurrency(rate.toCurrency);
+    setRateValue(rate.rate.toString());
+    setEffectiveDate(toDateInput(rate.effectiveDate));
+  };
+
+  const balancesWith = useCallback((table: ExchangeRate[]) =>
+    calculateBalances(
+      applyExchangeRates(expenses, table, baseCurrency),
+      applyExchangeRates(payments, table, baseCurrency),
+      { baseCurrency, checkpoint }
+    ), [expenses, payments, checkpoint, baseCurrency]);
+
+  // Balances that would change if the rate being edited were saved
+  const affectedBalances = useMemo(() => {
+    const rate = parseFloat(rateValue);
+    if (!showForm || !fromCurrency || fromCurrency === toCurrency || !(rate > 0) || !effectiveDate) return [];
+
+    const draft: ExchangeRate = {
+      id: editingRateId || 'draft',
+      groupId,
+      fromCurrency,
+      toCurrency,
+      rate,
+      effectiveDate: new Date(`${effectiveDate}T00:00:00`),
+      createdBy: userId,
+      createdAt: new Date(),
+    };
+    const draftTable = editingRateId
+      ? rates.map((entry) => (entry.id === editingRateId ? draft : entry))
+      : [...rates, draft];
+
+    return compareBalances(balancesWith(rates), balancesWith(draftTable));
+  }, [showForm, editingRateId, groupId, fromCurrency, toCurrency, rateValue, effectiveDate, rates, userId, balancesWith]);
+
+  const describe = (from: string, to: string, amount: number) => {
+    if (amount === 0) return 'settled';
+    return amount > 0
+      ? `${getMemberName(from)} owes ${getMemberName(to)} ${formatMoney(amount, baseCurrency)}`
+      : `${getMemberName(to)} owes ${getMemberName(from)} ${formatMoney(-amount, baseCurrency)}`;
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = parseFloat(rateValue);
+    if (!fromCurrency || !(rate > 0) || !effectiveDate) {
+      showToast('Please enter a currency pair, a rate and a date', 'error');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const fields = {
+        fromCurrency,
+        toCurrency,
+        rate,
+        effectiveDate: new Date(`${effectiveDate}T00:00:00`),
+      };
+      if (editingRateId) {
+        await updateExchangeRate(groupId, editingRateId, fields);
+      } else {
+        await createExchangeRate({ groupId, ...fields, createdBy: userId });
+      }
+      showToast('✅ Exchange rate saved', 'success');
+      resetForm();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to save exchange rate'}`, 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    const changes = compareBalances(balancesWith(rates), balancesWith(rates.filter((entry) => entry.id !== rate.id)));
+    const message = changes.length > 0
+      ? `Deleting this rate changes ${changes.length} balance${changes.length !== 1 ? 's' : ''}. Continue?`
+      : 'Delete this exchange rate?';
+    if (!window.confirm(message)) return;
+
+    try {
+      await deleteExchangeRate(groupId, rate.id);
+      showToast('✅ Exchange rate deleted', 'success');
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      showToast('❌ Failed to delete exchange rate. Please try again.', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+      <div className="flex justify-between items-center mb-1">
+        <h4 className="text-base sm:text-lg font-semibold text-white">Exchange Rates</h4>
+        {isAdmin && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg transition-colors text-xs sm:text-sm"
+          >
+            + Add Rate
+          </button>
+        )}
+      </div>
+      <p className="text-gray-400 text-xs sm:text-sm mb-3">
+        Foreign-currency expenses and payments use the latest rate effective on their date. Items without a
+        matching rate keep the rate entered with them.
+      </p>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-gray-700 rounded-lg p-3 sm:p-4 mb-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-gray-300 text-sm sm:text-base">
+            <span>1</span>
+            <select
+              value={fromCurrency}
+              onChange={(e) => setFromCurrency(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            >
+              <option value="">Currency</option>
+              {SUPPORTED_CURRENCIES.filter((code) => code !== toCurrency).map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+            <span>=</span>
+            <input
+              type="number"
+              step="any"
+              min="0"
+              value={rateValue}
+              onChange={(e) => setRateValue(e.target.value)}
+              placeholder="Rate"
+              className="w-28 bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+            <select
+              value={toCurrency}
+              onChange={(e) => setToCurrency(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SUPPORTED_CURRENCIES.filter((code) => code !== fromCurrency).map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-gray-300 text-sm">
+            Effective from
+            <input
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </label>
+
+          {affectedBalances.length > 0 ? (
+            <div className="bg-yellow-900 bg-opacity-30 border border-yellow-700 rounded-lg p-3">
+              <p className="text-yellow-300 text-xs sm:text-sm font-semibold mb-1">
+                This changes {affectedBalances.length} balance{affectedBalances.length !== 1 ? 's' : ''}:
+              </p>
+              <ul className="text-gray-300 text-xs sm:text-sm space-y-1">
+                {affectedBalances.map((change) => (
+                  <li key={`${change.from}-${change.to}`}>
+                    {describe(change.from, change.to, change.before)} → {describe(change.from, change.to, change.after)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            fromCurrency && rateValue && (
+              <p className="text-gray-400 text-xs sm:text-sm">No current balances are affected by this rate.</p>
+            )
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm"
+            >
+              {saving ? 'Saving...' : editingRateId ? 'Update Rate' : 'Save Rate'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {rates.length === 0 ? (
+        <p className="text-gray-500 text-sm">No exchange rates yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {rates.map((rate) => (
+            <div key={rate.id} className="flex items-center justify-between gap-2 p-2 sm:p-3 bg-gray-700 rounded-lg">
+              <div className="min-w-0">
+                <p className="text-white text-sm sm:text-base">
+                  1 {rate.fromCurrency} = {rate.rate} {rate.toCurrency}
+                </p>
+                <p className="text-gray-400 text-xs">From {rate.effectiveDate.toLocaleDateString()}</p>
+              </div>
+              {isAdmin && (
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => startEditing(rate)}
+                    className="text-blue-400 hover:text-blue-300 text-xs sm:text-sm"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rate)}
+                    className="text-red-400 hover:text-red-300 text-xs sm:text-sm"
+                  >
+                    Delete
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
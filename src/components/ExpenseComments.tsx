@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import type { Comment, Expense } from '../types';
+import { subscribeToComments, createComment, deleteComment } from '../services/firebaseService';
+
+interface ExpenseCommentsProps {
+  expense: Expense;
+  userId: string;
+  userName: string;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+export const ExpenseComments = ({ expense, userId, userName, showToast }: ExpenseCommentsProps) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [text, setText] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    const unsubscribe = subscribeToComments(expense.groupId, expense.id, (updatedComments) => {
+      setComments(updatedComments);
+      setLoading(false);
+    });
+    return () => unsubscribe();
+  }, [expense.groupId, expense.id]);
+
+  const handlePost = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || posting) return;
+
+    try {
+      setPosting(true);
+      await createComment(
+        {
+          expenseId: expense.id,
+          groupId: expense.groupId,
+          text,
+          authorId: userId,
+          authorName: userName,
+        },
+        expense.title
+      );
+      setText('');
+    } catch (error) {
+      console.error('Error posting comment:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to post comment'}`, 'error');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      await deleteComment(expense.id, comment.id);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      showToast('❌ Failed to delete comment. Please try again.', 'error');
+    }
+  };
+
+  return (
+    <div className="mt-3 sm:mt-4 border-t border-gray-700 pt-3 sm:pt-4">
+      {loading ? (
+        <p className="text-gray-500 text-xs sm:text-sm">Loading comments...</p>
+      ) : comments.length === 0 ? (
+        <p className="text-gray-500 text-xs sm:text-sm">No comments yet. Ask a question or add a note.</p>
+      ) : (
+        <div className="space-y-2 mb-3">
+          {comments.map((comment) => (
+            <div key={comment.id} className="bg-gray-700 rounded-lg px-3 py-2">
+              <div className="flex justify-between items-center gap-2 mb-0.5">
+                <p className="text-xs sm:text-sm">
+                  <span className="text-white font-semibold">{comment.authorName}</span>{' '}
+                  <span className="text-gray-400">{comment.createdAt.toLocaleString()}</span>
+                </p>
+                {(comment.authorId === userId || expense.createdBy === userId) && (
+                  <button
+                    onClick={() => handleDelete(comment)}
+                    className="text-red-400 hover:text-red-300 text-xs"
+                    title="Delete comment"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+              <p className="text-gray-200 text-sm whitespace-pre-wrap break-words">{comment.text}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handlePost} className="flex gap-2 mt-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Write a comment..."
+          maxLength={1000}
+          className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={posting || !text.trim()}
+          className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm"
+        >
+          {posting ? 'Posting...' : 'Post'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import type { ExpenseQuery, ExpenseSort } from '../utils/expenseQuery';
+import { EXPENSE_SORT_LABELS, hasExpenseFilters } from '../utils/expenseQuery';
+import type { Category } from '../utils/categories';
+import { getAmountStep } from '../utils/money';
+
+interface ExpenseFiltersProps {
+  query: ExpenseQuery;
+  onChange: (changes: Partial<ExpenseQuery>) => void;
+  onClear: () => void;
+  onExport: () => void;
+  members: string[];
+  categories: Category[];
+  baseCurrency: string;
+  getMemberName: (memberId: string) => string;
+  matchCount: number;
+  totalCount: number;
+}
+
+export const ExpenseFilters = ({
+  query,
+  onChange,
+  onClear,
+  onExport,
+  members,
+  categories,
+  baseCurrency,
+  getMemberName,
+  matchCount,
+  totalCount,
+}: ExpenseFiltersProps) => {
+  const filtering = hasExpenseFilters(query);
+  // Open the extra filters straight away when a shared link already uses them
+  const [expanded, setExpanded] = useState(() => filtering && (Object.keys(query) as Array<keyof ExpenseQuery>)
+    .some((field) => field !== 'search' && field !== 'sort'));
+
+  const inputClassName =
+    'bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const amountValue = (value?: number) => (value === undefined ? '' : value.toString());
+  const parseAmount = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  return (
+    <div className="mb-3 sm:mb-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="search"
+          value={query.search || ''}
+          onChange={(e) => onChange({ search: e.target.value || undefined })}
+          placeholder="Search title or notes"
+          className={`${inputClassName} flex-1 min-w-0`}
+        />
+        <div className="flex gap-2">
+          <select
+            value={query.sort || 'newest'}
+            onChange={(e) => onChange({ sort: e.target.value as ExpenseSort })}
+            className={`${inputClassName} flex-1 sm:flex-none`}
+            aria-label="Sort"
+          >
+            {(Object.keys(EXPENSE_SORT_LABELS) as ExpenseSort[]).map((sort) => (
+              <option key={sort} value={sort}>{EXPENSE_SORT_LABELS[sort]}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className={`px-3 py-2 rounded-lg text-sm transition-colors whitespace-nowrap ${
+              expanded ? 'bg-blue-600 text-white' : 'bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            Filters {expanded ? '▲' : '▼'}
+          </button>
+          <button
+            type="button"
+            onClick={onExport}
+            className="px-3 py-2 rounded-lg text-sm bg-gray-800 border border-gray-700 text-gray-300 hover:bg-gray-700 transition-colors whitespace-nowrap"
+            title="Download the expenses shown, plus payments in the same date range, as CSV"
+          >
+            ⬇️ CSV
+          </button>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 mt-2 bg-gray-800 border border-gray-700 rounded-lg p-3">
+          <label className="text-gray-400 text-xs">
+            Paid by
+            <select
+              value={query.paidBy || ''}
+              onChange={(e) => onChange({ paidBy: e.target.value || undefined })}
+              className={`${inputClassName} w-full mt-1 bg-gray-700`}
+            >
+              <option value="">Anyone</option>
+              {members.map((memberId) => (
+                <option key={memberId} value={memberId}>{getMemberName(memberId)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-gray-400 text-xs">
+            Involving
+            <select
+              value={query.participant || ''}
+              onChange={(e) => onChange({ participant: e.target.value || undefined })}
+              className={`${inputClassName} w-full mt-1 bg-gray-700`}
+            >
+              <option value="">Anyone</option>
+              {members.map((memberId) => (
+                <option key={memberId} value={memberId}>{getMemberName(memberId)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="text-gray-400 text-xs">
+            Category
+            <select
+              value={query.category || ''}
+              onChange={(e) => onChange({ category: e.target.value || undefined })}
+              className={`${inputClassName} w-full mt-1 bg-gray-700`}
+            >
+              <option value="">All categories</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>{category.icon} {category.label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="text-gray-400 text-xs">
+            Amount ({baseCurrency})
+            <div className="flex items-center gap-2 mt-1">
+              <input
+                type="number"
+                min="0"
+                step={getAmountStep(baseCurrency)}
+                value={amountValue(query.minAmount)}
+                onChange={(e) => onChange({ minAmount: parseAmount(e.target.value) })}
+                placeholder="Min"
+                className={`${inputClassName} w-full min-w-0 bg-gray-700`}
+              />
+              <span>–</span>
+              <input
+                type="number"
+                min="0"
+                step={getAmountStep(baseCurrency)}
+                value={amountValue(query.maxAmount)}
+                onChange={(e) => onChange({ maxAmount: parseAmount(e.target.value) })}
+                placeholder="Max"
+                className={`${inputClassName} w-full min-w-0 bg-gray-700`}
+              />
+            </div>
+          </div>
+          <div className="text-gray-400 text-xs sm:col-span-2">
+            Date
+            <div className="flex items-center gap-2 mt-1">
+              <input
+                type="date"
+                value={query.from || ''}
+                onChange={(e) => onChange({ from: e.target.value || undefined })}
+                className={`${inputClassName} w-full min-w-0 bg-gray-700`}
+                aria-label="From date"
+              />
+              <span>–</span>
+              <input
+                type="date"
+                value={query.to || ''}
+                onChange={(e) => onChange({ to: e.target.value || undefined })}
+                className={`${inputClassName} w-full min-w-0 bg-gray-700`}
+                aria-label="To date"
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {filtering && (
+        <div className="flex justify-between items-center mt-2 text-xs sm:text-sm">
+          <span className="text-gray-400">
+            Showing {matchCount} of {totalCount} expenses
+          </span>
+          <button type="button" onClick={onClear} className="text-blue-400 hover:text-blue-300">
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
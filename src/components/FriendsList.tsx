@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { getUser } from '../services/firebaseService';
+import { useAuth } from '../contexts/AuthContext';
+import { useFriendBalances } from '../hooks/useFriendBalances';
+import type { User } from '../types';
+import { formatMoney } from '../utils/money';
+
+export const FriendsList = () => {
+  const { user } = useAuth();
+  const { friends, loading } = useFriendBalances(user?.uid);
+  const [users, setUsers] = useState<Map<string, User>>(new Map());
+  const [expandedFriendId, setExpandedFriendId] = useState<string | null>(null);
+
+  // Load names for anyone we don't know yet
+  useEffect(() => {
+    const missing = friends.map((friend) => friend.friendId).filter((friendId) => !users.has(friendId));
+    if (missing.length === 0) return;
+
+    const loadUsers = async () => {
+      const userMap = new Map(users);
+      for (const friendId of missing) {
+        const friendUser = await getUser(friendId);
+        if (friendUser) {
+          userMap.set(friendId, friendUser);
+        }
+      }
+      setUsers(userMap);
+    };
+
+    loadUsers();
+  }, [friends, users]);
+
+  const outstanding = friends.filter((friend) => Object.values(friend.totals).some((amount) => amount !== 0));
+  const sortedFriends = [...outstanding].sort((a, b) =>
+    (users.get(a.friendId)?.name || '').localeCompare(users.get(b.friendId)?.name || '')
+  );
+
+  return (
+    <div>
+      <div className="mb-4 sm:mb-6">
+        <h2 className="text-2xl sm:text-3xl font-bold">Friends</h2>
+        <p className="text-gray-400 text-xs sm:text-sm mt-1">What you owe and are owed, across every group you share</p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12 bg-gray-800 rounded-lg">
+          <p className="text-gray-400">Loading balances...</p>
+        </div>
+      ) : sortedFriends.length === 0 ? (
+        <div className="text-center py-12 bg-gray-800 rounded-lg">
+          <p className="text-gray-400">You're all settled up with everyone! 🎉</p>
+        </div>
+      ) : (
+        <div className="space-y-2 sm:space-y-3">
+          {sortedFriends.map((friend) => {
+            const friendUser = users.get(friend.friendId);
+            const isExpanded = expandedFriendId === friend.friendId;
+            return (
+              <div key={friend.friendId} className="bg-gray-800 rounded-lg border border-gray-700">
+                <button
+                  onClick={() => setExpandedFriendId(isExpanded ? null : friend.friendId)}
+                  className="w-full flex items-center justify-between gap-3 p-4 sm:p-5 text-left"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    {friendUser?.photoURL && (
+                      <img src={friendUser.photoURL} alt={friendUser.name} className="w-8 h-8 sm:w-10 sm:h-10 rounded-full flex-shrink-0" />
+                    )}
+                    <span className="font-semibold text-white text-sm sm:text-base truncate">
+                      {friendUser?.name || 'Unknown'}
+                    </span>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    {Object.entries(friend.totals)
+                      .filter(([, amount]) => amount !== 0)
+                      .map(([currency, amount]) => (
+                        <p key={currency} className={`text-sm sm:text-base font-semibold ${amount > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                          {amount > 0 ? 'owes you ' : 'you owe '}
+                          {formatMoney(Math.abs(amount), currency)}
+                        </p>
+                      ))}
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="border-t border-gray-700 px-4 sm:px-5 py-3 space-y-2">
+                    {friend.groups.map((entry) => (
+                      <Link
+                        key={entry.groupId}
+                        to={`/groups/${entry.groupId}`}
+                        className="flex justify-between items-center gap-3 text-sm hover:text-blue-300 transition-colors"
+                      >
+                        <span className="text-gray-300 truncate">{entry.groupName}</span>
+                        <span className={entry.amount > 0 ? 'text-green-400' : 'text-red-400'}>
+                          {entry.amount > 0 ? 'owes you ' : 'you owe '}
+                          {formatMoney(Math.abs(entry.amount), entry.currency)}
+                        </span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import type { Group, User } from '../types';
+import { getFullGroupData } from '../services/firebaseService';
+import { createGroupBackup, parseGroupBackup } from '../utils/groupBackup';
+import type { GroupBackup } from '../utils/groupBackup';
+import { saveBlob, toFileNamePart } from '../utils/csv';
+import { toDateInput } from '../utils/dates';
+import { RestoreBackupModal } from './RestoreBackupModal';
+
+interface GroupBackupPanelProps {
+  group: Group;
+  hasLedgerEntries: boolean;
+  isAdmin: boolean;
+  user: Pick<User, 'uid' | 'name' | 'email'>;
+  getMemberName: (memberId: string) => string;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+export const GroupBackupPanel = ({ group, hasLedgerEntries, isAdmin, user, getMemberName, showToast }: GroupBackupPanelProps) => {
+  const [downloading, setDownloading] = useState(false);
+  const [restoring, setRestoring] = useState<GroupBackup | null>(null);
+
+  const handleDownload = async () => {
+    try {
+      setDownloading(true);
+      const data = await getFullGroupData(group.id);
+      const backup = createGroupBackup(data.group, data.expenses, data.payments, data.activities);
+      saveBlob(
+        `${toFileNamePart(group.name)}-backup-${toDateInput(new Date())}.json`,
+        new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+      );
+    } catch (error) {
+      console.error('Error backing up group:', error);
+      showToast('❌ Failed to download the backup. Please try again.', 'error');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    try {
+      setRestoring(parseGroupBackup(await selected.text()));
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to read the backup'}`, 'error');
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+      <h4 className="text-base sm:text-lg font-semibold text-white mb-1">Backup</h4>
+      <p className="text-gray-400 text-xs sm:text-sm mb-3">
+        Download the group, its members and every expense, payment and activity as a JSON file. Receipt photos,
+        comments, recurring expenses, budgets, exchange rates and closed periods are not included.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleDownload}
+          disabled={downloading}
+          className="bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg transition-colors disabled:opacity-50 text-xs sm:text-sm"
+        >
+          {downloading ? 'Preparing...' : '⬇️ Download Backup'}
+        </button>
+        {isAdmin && !hasLedgerEntries && (
+          <label className="bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-lg transition-colors text-xs sm:text-sm cursor-pointer">
+            Restore Backup Here
+            <input type="file" accept=".json,application/json" onChange={handleFileChange} className="hidden" />
+          </label>
+        )}
+      </div>
+
+      {restoring && (
+        <RestoreBackupModal
+          backup={restoring}
+          targetGroup={group}
+          user={user}
+          getMemberName={getMemberName}
+          onClose={() => setRestoring(null)}
+          onRestored={() => setRestoring(null)}
+          showToast={showToast}
+        />
+      )}
+    </div>
+  );
+};
@@ -1,45 +1,118 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
-import { useParams, Link, useSearchParams } from 'react-router-dom';
-import { getGroup, subscribeToExpenses, createExpense, updateExpense, subscribeToActivities, subscribeToPayments, createPayment } from '../services/firebaseService';
-import { calculateBalances, minimizeTransactions } from '../utils/balanceCalculator';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { getGroup, updateGroup, subscribeToExpenses, subscribeToExpensesSince, subscribeToLedger, createExpense, updateExpense, subscribeToActivities, subscribeToPayments, createPayment, subscribeToExchangeRates, subscribeToRecurringExpenses, createRecurringExpense, materializeRecurringExpenses, backfillLedgerDates, subscribeToBudgets, syncBudgetAlertLevel, subscribeToCommentCounts, subscribeToBalanceCheckpoints, getFullGroupData, addReceipts, removeReceipt } from '../services/firebaseService';
+import { calculateBalances, explainBalance, minimizeTransactions, toBaseUnits } from '../utils/balanceCalculator';
+import { getExpenseShares, getExpensePayerCents, validateSplit, validatePayers, usesSplitValues, SPLIT_TYPE_LABELS } from '../utils/splitCalculator';
+import { applyExchangeRates, findEffectiveRate } from '../utils/exchangeRates';
+import { FREQUENCY_LABELS } from '../utils/recurrence';
+import { toDateInput } from '../utils/dates';
+import { getGroupCategories, getCategory, DEFAULT_CATEGORY } from '../utils/categories';
+import { getBudgetSpending, getBudgetAlertLevel } from '../utils/budgets';
+import { getLatestCheckpoint, isInClosedPeriod } from '../utils/periods';
+import { parseExpenseQuery, writeExpenseQuery, queryExpenses, isInQueryDateRange } from '../utils/expenseQuery';
+import { buildLedgerCsv, buildBalancesCsv } from '../utils/ledgerExport';
+import { downloadCsv, toFileNamePart } from '../utils/csv';
+import type { ExpenseQuery } from '../utils/expenseQuery';
+import { toMinorUnits, fromMinorUnits, formatAmount, formatMoney, getAmountStep, DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../utils/money';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../hooks/useToast';
-import type { Group, Expense, Activity, GroupMember, Payment } from '../types';
+import type { Group, Expense, Activity, GroupMember, FormerMember, Payment, SplitType, ExchangeRate, Balance, RecurringExpense, RecurrenceFrequency, Budget, Receipt, BalanceCheckpoint } from '../types';
 import { getUser } from '../services/firebaseService';
 import type { User } from '../types';
+import { ItemizedEditor } from './ItemizedEditor';
+import { GroupSettings } from './GroupSettings';
+import { ExchangeRatesPanel } from './ExchangeRatesPanel';
+import { SettlementPlannerPanel } from './SettlementPlannerPanel';
+import { BalanceBreakdownModal } from './BalanceBreakdownModal';
+import { RecurringExpensesPanel } from './RecurringExpensesPanel';
+import { SplitwiseImportPanel } from './SplitwiseImportPanel';
+import { GroupBackupPanel } from './GroupBackupPanel';
+import { ArchiveGroupPanel } from './ArchiveGroupPanel';
+import { RemoveMemberModal } from './RemoveMemberModal';
+import { BalancePeriodsPanel } from './BalancePeriodsPanel';
+import { CategoryBreakdownPanel } from './CategoryBreakdownPanel';
+import { BudgetsPanel } from './BudgetsPanel';
+import { ExpenseComments } from './ExpenseComments';
+import { ReceiptGallery } from './ReceiptGallery';
+import { ExpenseFilters } from './ExpenseFilters';
+import type { ItemDraft } from './ItemizedEditor';
+
+type ExpenseDraft = Pick<Expense, 'amount' | 'currency' | 'exchangeRate' | 'paidBy' | 'payers' | 'sharedWith' | 'splitType' | 'splits' | 'items' | 'tax' | 'tip'>;
 
 export const GroupDetails = () => {
   const { groupId } = useParams<{ groupId: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
   const { user } = useAuth();
   const [group, setGroup] = useState<Group | null>(null);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [payments, setPayments] = useState<Payment[]>([]);
+  // Every expense and payment, for balances; the lists above only hold the latest
+  const [ledger, setLedger] = useState<{ expenses: Expense[]; payments: Payment[] } | null>(null);
   const [activities, setActivities] = useState<Activity[]>([]);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [selectedBalance, setSelectedBalance] = useState<Balance | null>(null);
+  const [removingMemberId, setRemovingMemberId] = useState<string | null>(null); // Member in the leave or remove dialog
+  const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [checkpoints, setCheckpoints] = useState<BalanceCheckpoint[]>([]);
+  const [budgetExpenses, setBudgetExpenses] = useState<{ since: number; expenses: Expense[] } | null>(null);
+  const [commentCounts, setCommentCounts] = useState<{ [expenseId: string]: number }>({});
+  const [openCommentsId, setOpenCommentsId] = useState<string | null>(null); // Expense whose thread is expanded
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | ''>(''); // Empty means a one-off expense
+  const [repeatIntervalDays, setRepeatIntervalDays] = useState('');
+  const [repeatEndDate, setRepeatEndDate] = useState('');
   const [users, setUsers] = useState<Map<string, User>>(new Map());
   const [showExpenseModal, setShowExpenseModal] = useState(false);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   const [expenseTitle, setExpenseTitle] = useState('');
+  const [expenseNotes, setExpenseNotes] = useState('');
+  const [expenseCategory, setExpenseCategory] = useState(DEFAULT_CATEGORY);
+  const [expenseDate, setExpenseDate] = useState(() => toDateInput(new Date())); // YYYY-MM-DD
   const [expenseAmount, setExpenseAmount] = useState('');
+  const [expenseCurrency, setExpenseCurrency] = useState(''); // Empty means the group's base currency
+  const [expenseRate, setExpenseRate] = useState('');
   const [selectedMembers, setSelectedMembers] = useState<string[]>([]);
   const [selectedPaidBy, setSelectedPaidBy] = useState<string>('');
+  const [multiplePayers, setMultiplePayers] = useState(false);
+  const [payerValues, setPayerValues] = useState<Record<string, string>>({});
+  const [splitType, setSplitType] = useState<SplitType>('equal');
+  const [splitValues, setSplitValues] = useState<Record<string, string>>({});
+  const [expenseItems, setExpenseItems] = useState<ItemDraft[]>([]);
+  const [expenseTax, setExpenseTax] = useState('');
+  const [expenseTip, setExpenseTip] = useState('');
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([]); // New receipts to upload when the expense is saved
   const [paymentFrom, setPaymentFrom] = useState<string>('');
   const [paymentTo, setPaymentTo] = useState<string>('');
   const [paymentAmount, setPaymentAmount] = useState('');
+  const [paymentCurrency, setPaymentCurrency] = useState(''); // Empty means the group's base currency
+  const [paymentRate, setPaymentRate] = useState('');
   const [paymentMethod, setPaymentMethod] = useState<'cash' | 'zelle' | 'venmo' | 'paypal' | 'other'>('cash');
   const [paymentNote, setPaymentNote] = useState('');
-  const [activeTab, setActiveTab] = useState<'expenses' | 'balances' | 'activity' | 'members'>('expenses');
+  const [paymentDate, setPaymentDate] = useState(() => toDateInput(new Date())); // YYYY-MM-DD
+  const [activeTab, setActiveTab] = useState<'expenses' | 'balances' | 'activity' | 'members' | 'settings'>('expenses');
   const [showWelcomeBanner, setShowWelcomeBanner] = useState(false);
   const [recordingPayment, setRecordingPayment] = useState(false);
   const { showToast, ToastComponent } = useToast();
+  const baseCurrency = group?.baseCurrency || DEFAULT_CURRENCY;
+  const isAdmin = !!group && !!user && (
+    group.createdBy === user.uid || group.membersDetail?.[user.uid]?.role === 'admin'
+  );
+  // Anyone but the creator can leave, and admins can remove them
+  const canRemoveMember = (memberId: string) =>
+    !!group && !!user && memberId !== group.createdBy && (memberId === user.uid || isAdmin);
   
   // Check if user just joined (from URL param)
   useEffect(() => {
     if (searchParams.get('joined') === 'true') {
       setShowWelcomeBanner(true);
-      // Remove the query param from URL
-      setSearchParams({}, { replace: true });
+      // Remove the query param from URL, keeping any expense filters
+      setSearchParams((params) => {
+        const next = new URLSearchParams(params);
+        next.delete('joined');
+        return next;
+      }, { replace: true });
       // Auto-hide banner after 5 seconds
       const timer = setTimeout(() => {
         setShowWelcomeBanner(false);
@@ -84,24 +157,102 @@ export const GroupDetails = () => {
     });
 
     // Subscribe to activities
+    const unsubscribeLedger = subscribeToLedger(groupId, setLedger);
+
     const unsubscribeActivities = subscribeToActivities(groupId, (updatedActivities) => {
       setActivities(updatedActivities);
     });
 
+    const unsubscribeExchangeRates = subscribeToExchangeRates(groupId, (updatedRates) => {
+      setExchangeRates(updatedRates);
+    });
+
+    const unsubscribeRecurringExpenses = subscribeToRecurringExpenses(groupId, (updatedRecurringExpenses) => {
+      setRecurringExpenses(updatedRecurringExpenses);
+    });
+
+    const unsubscribeBudgets = subscribeToBudgets(groupId, (updatedBudgets) => {
+      setBudgets(updatedBudgets);
+    });
+
+    const unsubscribeCommentCounts = subscribeToCommentCounts(groupId, (counts) => {
+      setCommentCounts(counts);
+    });
+
+    const unsubscribeCheckpoints = subscribeToBalanceCheckpoints(groupId, (updatedCheckpoints) => {
+      setCheckpoints(updatedCheckpoints);
+    });
+
     return () => {
       unsubscribeExpenses();
       unsubscribePayments();
+      unsubscribeLedger();
       unsubscribeActivities();
+      unsubscribeExchangeRates();
+      unsubscribeRecurringExpenses();
+      unsubscribeBudgets();
+      unsubscribeCommentCounts();
+      unsubscribeCheckpoints();
     };
   }, [groupId, user]);
 
+  // Budgets count every expense in their dates, not just the latest ones the list loads
+  const budgetsStart = useMemo(
+    () => (budgets.length > 0 ? Math.min(...budgets.map((budget) => budget.startDate.getTime())) : null),
+    [budgets]
+  );
+
+  useEffect(() => {
+    if (!groupId || !user || budgetsStart === null) return;
+
+    const unsubscribe = subscribeToExpensesSince(groupId, new Date(budgetsStart), (updatedExpenses) => {
+      setBudgetExpenses({ since: budgetsStart, expenses: updatedExpenses });
+    });
+    return () => {
+      unsubscribe();
+      setBudgetExpenses(null);
+    };
+  }, [groupId, user, budgetsStart]);
+
+  // Entries recorded before they had a date are left out of the date-ordered
+  // lists until they get one; older groups are backfilled once
+  const needsDateBackfill = !!group && !group.datesBackfilled;
+
+  useEffect(() => {
+    if (!groupId || !user || !needsDateBackfill) return;
+
+    backfillLedgerDates(groupId)
+      .then(() => {
+        setGroup((current) => current && { ...current, datesBackfilled: true });
+      })
+      .catch((error) => {
+        console.error('Error backfilling entry dates:', error);
+      });
+  }, [groupId, user, needsDateBackfill]);
+
+  // Add any recurring expenses that came due since the group was last opened
+  useEffect(() => {
+    if (!groupId || !user) return;
+
+    materializeRecurringExpenses(groupId, user.uid)
+      .then((count) => {
+        if (count > 0) {
+          showToast(`🔁 Added ${count} recurring expense${count !== 1 ? 's' : ''}`, 'info');
+        }
+      })
+      .catch((error) => {
+        console.error('Error adding recurring expenses:', error);
+      });
+  }, [groupId, user, showToast]);
+
   // Load user details
   useEffect(() => {
     if (!group) return;
 
     const loadUsers = async () => {
       const userMap = new Map<string, User>();
-      for (const memberId of group.members) {
+      // Former members too, since their past expenses and payments still name them
+      for (const memberId of new Set([...group.members, ...Object.keys(group.formerMembers || {})])) {
         const memberUser = await getUser(memberId);
         if (memberUser) {
           userMap.set(memberId, memberUser);
@@ -115,21 +266,108 @@ export const GroupDetails = () => {
 
   const resetExpenseForm = useCallback(() => {
     setExpenseTitle('');
+    setExpenseNotes('');
+    setExpenseCategory(DEFAULT_CATEGORY);
+    setExpenseDate(toDateInput(new Date()));
     setExpenseAmount('');
+    setExpenseCurrency('');
+    setExpenseRate('');
     setSelectedMembers([]);
     setSelectedPaidBy('');
+    setMultiplePayers(false);
+    setPayerValues({});
+    setSplitType('equal');
+    setSplitValues({});
+    setExpenseItems([]);
+    setExpenseTax('');
+    setExpenseTip('');
+    setReceiptFiles([]);
+    setRepeatFrequency('');
+    setRepeatIntervalDays('');
+    setRepeatEndDate('');
     setEditingExpense(null);
   }, []);
 
+  // Builds the amount, participants and split fields for an expense from the modal state
+  const buildExpenseDraft = useCallback((): ExpenseDraft => {
+    // With several payers, the largest contributor becomes the main payer
+    let paidBy = selectedPaidBy || user?.uid || '';
+    let payers: { [userId: string]: number } | undefined;
+    if (multiplePayers) {
+      const paid: { [userId: string]: number } = {};
+      for (const [memberId, value] of Object.entries(payerValues)) {
+        const amount = parseFloat(value) || 0;
+        if (amount > 0) {
+          paid[memberId] = amount;
+        }
+      }
+      paidBy = Object.keys(paid).reduce(
+        (largest, memberId) => (!largest || paid[memberId] > paid[largest] ? memberId : largest),
+        ''
+      );
+      payers = paid;
+    }
+    const payerIds = payers ? Object.keys(payers) : [paidBy];
+
+    // Always include the people who paid in the sharedWith array
+    const withPayer = (memberIds: string[]) => [
+      ...memberIds,
+      ...payerIds.filter((payerId) => payerId && !memberIds.includes(payerId)),
+    ];
+    const paidFields = payers ? { paidBy, payers } : { paidBy };
+    const currency = expenseCurrency || baseCurrency;
+    const currencyFields = {
+      currency,
+      exchangeRate: currency === baseCurrency ? 1 : parseFloat(expenseRate),
+    };
+
+    if (splitType === 'itemized') {
+      const items = expenseItems.map((item) => ({
+        name: item.name.trim(),
+        amount: parseFloat(item.amount) || 0,
+        assignedTo: item.assignedTo,
+      }));
+      const tax = parseFloat(expenseTax) || 0;
+      const tip = parseFloat(expenseTip) || 0;
+      const totalUnits = [...items.map((item) => item.amount), tax, tip].reduce(
+        (sum, amount) => sum + toMinorUnits(amount, currency),
+        0
+      );
+      const participants = Array.from(new Set(items.flatMap((item) => item.assignedTo)));
+      return {
+        amount: fromMinorUnits(totalUnits, currency),
+        ...currencyFields,
+        ...paidFields,
+        sharedWith: withPayer(participants),
+        splitType,
+        items,
+        tax,
+        tip,
+      };
+    }
+
+    const amount = parseFloat(expenseAmount);
+    const sharedWith = withPayer(selectedMembers);
+    if (splitType === 'equal') {
+      return { amount, ...currencyFields, ...paidFields, sharedWith, splitType };
+    }
+    const splits: { [userId: string]: number } = {};
+    sharedWith.forEach((memberId) => {
+      splits[memberId] = parseFloat(splitValues[memberId]) || 0;
+    });
+    return { amount, ...currencyFields, ...paidFields, sharedWith, splitType, splits };
+  }, [user, baseCurrency, expenseCurrency, expenseRate, selectedPaidBy, multiplePayers, payerValues, selectedMembers, expenseAmount, splitType, splitValues, expenseItems, expenseTax, expenseTip]);
+
   const handleCreateExpense = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !groupId || !expenseTitle.trim() || !expenseAmount || selectedMembers.length === 0) {
+    const draft = buildExpenseDraft();
+    if (!user || !groupId || !expenseTitle.trim() || draft.sharedWith.length === 0) {
       console.log('[handleCreateExpense] Early return:', {
         hasUser: !!user,
         groupId,
         expenseTitle: expenseTitle.trim(),
-        expenseAmount,
-        selectedMembers: selectedMembers.length,
+        amount: draft.amount,
+        sharedWith: draft.sharedWith.length,
       });
       return;
     }
@@ -138,31 +376,68 @@ export const GroupDetails = () => {
       userId: user.uid,
       groupId,
       title: expenseTitle.trim(),
-      amount: expenseAmount,
+      amount: draft.amount,
     });
 
     try {
-      const amount = parseFloat(expenseAmount);
-      if (isNaN(amount) || amount <= 0) {
+      if (isNaN(draft.amount) || draft.amount <= 0) {
         showToast('Please enter a valid amount', 'error');
         return;
       }
 
-      // Always include the person who paid in the sharedWith array
-      const paidBy = selectedPaidBy || user.uid;
-      const sharedWith = selectedMembers.includes(paidBy)
-        ? selectedMembers
-        : [...selectedMembers, paidBy];
+      if (!expenseDate) {
+        showToast('Please enter a date', 'error');
+        return;
+      }
+
+      if (!draft.exchangeRate || draft.exchangeRate <= 0) {
+        showToast('Please enter a valid exchange rate', 'error');
+        return;
+      }
+
+      const splitError = validateSplit(draft, baseCurrency) || validatePayers(draft, baseCurrency);
+      if (splitError) {
+        showToast(splitError, 'error');
+        return;
+      }
+
+      if (repeatFrequency) {
+        const intervalDays = parseInt(repeatIntervalDays, 10);
+        if (repeatFrequency === 'custom' && !(intervalDays >= 1)) {
+          showToast('Please enter how many days apart the expense repeats', 'error');
+          return;
+        }
+
+        // The first occurrence falls on the expense date and is created right away if it's due
+        await createRecurringExpense({
+          groupId,
+          title: expenseTitle.trim(),
+          category: expenseCategory,
+          ...draft,
+          frequency: repeatFrequency,
+          ...(repeatFrequency === 'custom' && { intervalDays }),
+          startDate: new Date(`${expenseDate}T00:00:00`),
+          ...(repeatEndDate && { endDate: new Date(`${repeatEndDate}T23:59:59`) }),
+          createdBy: user.uid,
+        });
+        await materializeRecurringExpenses(groupId, user.uid);
+
+        resetExpenseForm();
+        setShowExpenseModal(false);
+        showToast('🔁 Recurring expense added successfully!', 'success');
+        return;
+      }
 
       console.log('[handleCreateExpense] Calling createExpense...');
       
-      await createExpense(
+      const expenseId = await createExpense(
         {
           groupId,
           title: expenseTitle.trim(),
-          amount,
-          paidBy,
-          sharedWith,
+          ...(expenseNotes.trim() && { notes: expenseNotes.trim() }),
+          category: expenseCategory,
+          ...draft,
+          date: new Date(`${expenseDate}T00:00:00`),
           createdBy: user.uid,
         },
         user.name
@@ -170,6 +445,18 @@ export const GroupDetails = () => {
 
       console.log('[handleCreateExpense] Expense created successfully');
 
+      if (receiptFiles.length > 0) {
+        try {
+          await addReceipts({ id: expenseId, groupId }, receiptFiles);
+        } catch (receiptError) {
+          console.error('[handleCreateExpense] Error uploading receipts:', receiptError);
+          showToast(`Expense added, but the receipts couldn't be uploaded: ${receiptError instanceof Error ? receiptError.message : 'unknown error'}`, 'warning');
+          resetExpenseForm();
+          setShowExpenseModal(false);
+          return;
+        }
+      }
+
       // Success: close modal immediately, reset form, show toast
       resetExpenseForm();
       setShowExpenseModal(false);
@@ -187,36 +474,52 @@ export const GroupDetails = () => {
       console.log('[handleCreateExpense] Showing error toast:', errorMessage);
       showToast(`❌ ${errorMessage}`, 'error');
     }
-  }, [user, groupId, expenseTitle, expenseAmount, selectedMembers, selectedPaidBy, showToast, resetExpenseForm]);
+  }, [user, groupId, expenseTitle, expenseNotes, expenseCategory, expenseDate, receiptFiles, buildExpenseDraft, baseCurrency, repeatFrequency, repeatIntervalDays, repeatEndDate, showToast, resetExpenseForm]);
 
   const handleUpdateExpense = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !editingExpense || !expenseTitle.trim() || !expenseAmount || selectedMembers.length === 0) return;
+    const draft = buildExpenseDraft();
+    if (!user || !editingExpense || !expenseTitle.trim() || draft.sharedWith.length === 0) return;
 
     try {
-      const amount = parseFloat(expenseAmount);
-      if (isNaN(amount) || amount <= 0) {
+      if (isNaN(draft.amount) || draft.amount <= 0) {
         showToast('Please enter a valid amount', 'error');
         return;
       }
 
-      // Always include the person who paid in the sharedWith array
-      const paidBy = selectedPaidBy || user.uid;
-      const sharedWith = selectedMembers.includes(paidBy)
-        ? selectedMembers
-        : [...selectedMembers, paidBy];
+      if (!expenseDate) {
+        showToast('Please enter a date', 'error');
+        return;
+      }
+
+      if (!draft.exchangeRate || draft.exchangeRate <= 0) {
+        showToast('Please enter a valid exchange rate', 'error');
+        return;
+      }
+
+      const splitError = validateSplit(draft, baseCurrency) || validatePayers(draft, baseCurrency);
+      if (splitError) {
+        showToast(splitError, 'error');
+        return;
+      }
 
       await updateExpense(
         editingExpense.id,
         {
           title: expenseTitle.trim(),
-          amount,
-          paidBy,
-          sharedWith,
+          notes: expenseNotes.trim(),
+          category: expenseCategory,
+          ...draft,
+          date: new Date(`${expenseDate}T00:00:00`),
         },
         user.name
       );
 
+      if (receiptFiles.length > 0) {
+        const current = expenses.find((expense) => expense.id === editingExpense.id);
+        await addReceipts({ id: editingExpense.id, groupId: editingExpense.groupId, receipts: current?.receipts }, receiptFiles);
+      }
+
       // Success: close modal, reset form, show toast
       showToast('✅ Expense updated successfully!', 'success');
       resetExpenseForm();
@@ -224,16 +527,51 @@ export const GroupDetails = () => {
       setEditingExpense(null);
     } catch (error) {
       console.error('Error updating expense:', error);
-      showToast('❌ Failed to update expense. Please try again.', 'error');
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to update expense. Please try again.'}`, 'error');
+    }
+  }, [user, editingExpense, expenses, expenseTitle, expenseNotes, expenseCategory, expenseDate, receiptFiles, buildExpenseDraft, baseCurrency, showToast, resetExpenseForm]);
+
+  const handleRemoveReceipt = useCallback(async (receipt: Receipt) => {
+    if (!editingExpense || !window.confirm('Remove this receipt?')) return;
+    try {
+      await removeReceipt(editingExpense.id, receipt);
+      showToast('✅ Receipt removed', 'success');
+    } catch (error) {
+      console.error('Error removing receipt:', error);
+      showToast('❌ Failed to remove receipt. Please try again.', 'error');
     }
-  }, [user, editingExpense, expenseTitle, expenseAmount, selectedMembers, selectedPaidBy, showToast, resetExpenseForm]);
+  }, [editingExpense, showToast]);
 
   const handleEditExpense = useCallback((expense: Expense) => {
     setEditingExpense(expense);
     setExpenseTitle(expense.title);
+    setExpenseNotes(expense.notes || '');
+    setExpenseCategory(expense.category || DEFAULT_CATEGORY);
+    setExpenseDate(toDateInput(expense.date));
     setExpenseAmount(expense.amount.toString());
+    setExpenseCurrency(expense.currency || '');
+    setExpenseRate(expense.exchangeRate ? expense.exchangeRate.toString() : '');
     setSelectedMembers(expense.sharedWith);
     setSelectedPaidBy(expense.paidBy);
+    setMultiplePayers(!!expense.payers);
+    const paid: Record<string, string> = {};
+    Object.entries(expense.payers || {}).forEach(([memberId, value]) => {
+      paid[memberId] = value.toString();
+    });
+    setPayerValues(paid);
+    setSplitType(expense.splitType || 'equal');
+    const values: Record<string, string> = {};
+    Object.entries(expense.splits || {}).forEach(([memberId, value]) => {
+      values[memberId] = value.toString();
+    });
+    setSplitValues(values);
+    setExpenseItems((expense.items || []).map((item) => ({
+      name: item.name,
+      amount: item.amount.toString(),
+      assignedTo: item.assignedTo,
+    })));
+    setExpenseTax(expense.tax ? expense.tax.toString() : '');
+    setExpenseTip(expense.tip ? expense.tip.toString() : '');
     setShowExpenseModal(true);
   }, []);
 
@@ -246,8 +584,11 @@ export const GroupDetails = () => {
     setPaymentFrom('');
     setPaymentTo('');
     setPaymentAmount('');
+    setPaymentCurrency('');
+    setPaymentRate('');
     setPaymentMethod('cash');
     setPaymentNote('');
+    setPaymentDate(toDateInput(new Date()));
   }, []);
 
   const handleRecordPayment = useCallback(async (e: React.FormEvent) => {
@@ -270,14 +611,29 @@ export const GroupDetails = () => {
         return;
       }
 
+      if (!paymentDate) {
+        showToast('Please enter a date', 'error');
+        return;
+      }
+
+      const currency = paymentCurrency || baseCurrency;
+      const exchangeRate = currency === baseCurrency ? 1 : parseFloat(paymentRate);
+      if (!exchangeRate || exchangeRate <= 0) {
+        showToast('Please enter a valid exchange rate', 'error');
+        return;
+      }
+
       await createPayment(
         {
           groupId,
           from: paymentFrom,
           to: paymentTo,
           amount,
+          currency,
+          exchangeRate,
           paymentMethod,
           note: paymentNote.trim() || undefined,
+          date: new Date(`${paymentDate}T00:00:00`),
           createdBy: user.uid,
         },
         user.name
@@ -303,7 +659,7 @@ export const GroupDetails = () => {
     } finally {
       setRecordingPayment(false);
     }
-  }, [user, groupId, paymentFrom, paymentTo, paymentAmount, paymentMethod, paymentNote, showToast, resetPaymentForm, recordingPayment]);
+  }, [user, groupId, baseCurrency, paymentFrom, paymentTo, paymentAmount, paymentCurrency, paymentRate, paymentMethod, paymentNote, paymentDate, showToast, resetPaymentForm, recordingPayment]);
 
   const toggleMember = useCallback((memberId: string) => {
     setSelectedMembers((prev) =>
@@ -313,15 +669,214 @@ export const GroupDetails = () => {
     );
   }, []);
 
+  // Live preview of what each member will owe with the current modal values
+  const splitPreview = useMemo(() => {
+    const draft = buildExpenseDraft();
+    const amount = draft.amount || 0;
+    return {
+      amount,
+      shares: getExpenseShares({ ...draft, amount }, baseCurrency),
+      error: amount > 0 && draft.sharedWith.length > 0 ? validateSplit(draft, baseCurrency) || validatePayers(draft, baseCurrency) : null,
+    };
+  }, [buildExpenseDraft, baseCurrency]);
+
+  // The group's rate table takes precedence over the rate entered with each item
+  const ratedExpenses = useMemo(
+    () => applyExchangeRates(expenses, exchangeRates, baseCurrency),
+    [expenses, exchangeRates, baseCurrency]
+  );
+
+  // Balances start from the last closed period, so older entries aren't reprocessed
+  const latestCheckpoint = useMemo(() => getLatestCheckpoint(checkpoints), [checkpoints]);
+
+  const ratedLedger = useMemo(
+    () => ledger && {
+      expenses: applyExchangeRates(ledger.expenses, exchangeRates, baseCurrency),
+      payments: applyExchangeRates(ledger.payments, exchangeRates, baseCurrency),
+    },
+    [ledger, exchangeRates, baseCurrency]
+  );
+
   const balances = useMemo(() => {
-    if (expenses.length === 0 && payments.length === 0) return [];
-    return calculateBalances(expenses, payments);
-  }, [expenses, payments]);
+    if (!ratedLedger) return [];
+    return calculateBalances(ratedLedger.expenses, ratedLedger.payments, { baseCurrency, checkpoint: latestCheckpoint });
+  }, [ratedLedger, baseCurrency, latestCheckpoint]);
+
+  // Groups that simplify debts see the minimized plan instead of who owes whom per expense
+  const displayedBalances = useMemo(() => {
+    return group?.simplifyDebts ? minimizeTransactions(balances, baseCurrency) : balances;
+  }, [group?.simplifyDebts, balances, baseCurrency]);
+
+  const categories = useMemo(() => getGroupCategories(group), [group]);
+
+  // Search, filters and sort live in the URL so a filtered list can be shared
+  const expenseQuery = useMemo(() => parseExpenseQuery(searchParams), [searchParams]);
+
+  const updateExpenseQuery = useCallback((changes: Partial<ExpenseQuery>) => {
+    setSearchParams((params) => writeExpenseQuery(params, { ...parseExpenseQuery(params), ...changes }), { replace: true });
+  }, [setSearchParams]);
+
+  const clearExpenseFilters = useCallback(() => {
+    setSearchParams((params) => writeExpenseQuery(params, { sort: parseExpenseQuery(params).sort }), { replace: true });
+  }, [setSearchParams]);
+
+  const filteredExpenses = useMemo(() => {
+    return queryExpenses(expenses, expenseQuery, baseCurrency, exchangeRates);
+  }, [expenses, expenseQuery, baseCurrency, exchangeRates]);
+
+  // Date-sorted lists are grouped into a run per month; other sorts show a single list
+  const expensesByMonth = useMemo(() => {
+    const sort = expenseQuery.sort || 'newest';
+    if (sort !== 'newest' && sort !== 'oldest') {
+      return [{ label: '', expenses: filteredExpenses }];
+    }
+
+    const months: Array<{ label: string; expenses: Expense[] }> = [];
+    filteredExpenses.forEach((expense) => {
+      const label = expense.date.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+      const current = months[months.length - 1];
+      if (current && current.label === label) {
+        current.expenses.push(expense);
+      } else {
+        months.push({ label, expenses: [expense] });
+      }
+    });
+    return months;
+  }, [filteredExpenses, expenseQuery.sort]);
+
+  // Only once the snapshot reaches back to the earliest budget, so a missing
+  // or older read doesn't look like spending dropped
+  const ratedBudgetExpenses = useMemo(() => {
+    if (!budgetExpenses || budgetsStart === null || budgetExpenses.since > budgetsStart) return null;
+    return applyExchangeRates(budgetExpenses.expenses, exchangeRates, baseCurrency);
+  }, [budgetExpenses, budgetsStart, exchangeRates, baseCurrency]);
+
+  // Announce budget thresholds as spending crosses them
+  useEffect(() => {
+    if (!user || !ratedBudgetExpenses) return;
+
+    budgets.forEach((budget) => {
+      const spent = getBudgetSpending(budget, ratedBudgetExpenses, baseCurrency);
+      const level = getBudgetAlertLevel(spent, budget.amount, baseCurrency);
+      if (level === budget.alertLevel) return;
+
+      const progress = `${formatMoney(spent, baseCurrency)} of ${formatMoney(budget.amount, baseCurrency)}`;
+      const message = level >= 100
+        ? `went over the "${budget.name}" budget (${progress})`
+        : `reached ${level}% of the "${budget.name}" budget (${progress})`;
+
+      syncBudgetAlertLevel(budget, level, message, user.uid, user.name)
+        .then((crossed) => {
+          if (crossed) {
+            showToast(
+              level >= 100
+                ? `Budget "${budget.name}" is over its limit: ${progress}`
+                : `Budget "${budget.name}" is at ${level}%: ${progress}`,
+              'warning'
+            );
+          }
+        })
+        .catch((error) => {
+          console.error('Error updating budget alert:', error);
+        });
+    });
+  }, [user, budgets, ratedBudgetExpenses, baseCurrency, showToast]);
+
+  const balanceBreakdown = useMemo(() => {
+    if (!selectedBalance || !ratedLedger) return null;
+    return explainBalance(ratedLedger.expenses, ratedLedger.payments, selectedBalance.from, selectedBalance.to, {
+      baseCurrency,
+      checkpoint: latestCheckpoint,
+    });
+  }, [selectedBalance, ratedLedger, baseCurrency, latestCheckpoint]);
+
+  const getMemberName = useCallback((memberId: string) => {
+    return users.get(memberId)?.name || group?.formerMembers?.[memberId]?.name || 'Unknown';
+  }, [users, group]);
+
+  // Names come from the group's member details first, so people who haven't loaded yet still get one
+  const getExportName = useCallback((memberId: string) => {
+    return group?.membersDetail?.[memberId]?.name || getMemberName(memberId);
+  }, [group, getMemberName]);
+
+  const handleMemberRemoved = (former: FormerMember) => {
+    setRemovingMemberId(null);
+    if (former.uid === user?.uid) {
+      navigate('/groups');
+      return;
+    }
+    setGroup((current) => {
+      if (!current) return current;
+      const membersDetail = { ...current.membersDetail };
+      delete membersDetail[former.uid];
+      return {
+        ...current,
+        members: current.members.filter((memberId) => memberId !== former.uid),
+        ...(current.membersDetail && { membersDetail }),
+        formerMembers: { ...current.formerMembers, [former.uid]: former },
+      };
+    });
+  };
+
+  // Exports read the whole ledger, since the lists only hold the latest entries
+  const handleExportLedger = useCallback(async () => {
+    if (!groupId || !group) return;
+    try {
+      const data = await getFullGroupData(groupId);
+      const csv = buildLedgerCsv(
+        queryExpenses(data.expenses, expenseQuery, baseCurrency, exchangeRates),
+        data.payments.filter((payment) => isInQueryDateRange(payment.date, expenseQuery)),
+        {
+          baseCurrency,
+          // Former members keep their share columns so every row still adds up
+          members: Array.from(new Set([...group.members, ...Object.keys(group.formerMembers || {})])),
+          categories,
+          exchangeRates,
+          getMemberName: getExportName,
+        }
+      );
+      downloadCsv(`${toFileNamePart(group.name)}-ledger-${toDateInput(new Date())}.csv`, csv);
+    } catch (error) {
+      console.error('Error exporting ledger:', error);
+      showToast('❌ Failed to export the ledger. Please try again.', 'error');
+    }
+  }, [groupId, group, expenseQuery, baseCurrency, categories, exchangeRates, getExportName, showToast]);
+
+  const handleExportBalances = useCallback(async () => {
+    if (!groupId || !group) return;
+    try {
+      const data = await getFullGroupData(groupId);
+      const fullBalances = calculateBalances(
+        applyExchangeRates(data.expenses, exchangeRates, baseCurrency),
+        applyExchangeRates(data.payments, exchangeRates, baseCurrency),
+        { baseCurrency, checkpoint: latestCheckpoint }
+      );
+      const csv = buildBalancesCsv(fullBalances, minimizeTransactions(fullBalances, baseCurrency), baseCurrency, getExportName);
+      downloadCsv(`${toFileNamePart(group.name)}-balances-${toDateInput(new Date())}.csv`, csv);
+    } catch (error) {
+      console.error('Error exporting balances:', error);
+      showToast('❌ Failed to export the balances. Please try again.', 'error');
+    }
+  }, [groupId, group, exchangeRates, baseCurrency, latestCheckpoint, getExportName, showToast]);
 
-  const settlements = useMemo(() => {
-    if (balances.length === 0) return [];
-    return minimizeTransactions(balances);
-  }, [balances]);
+  // Pre-fills the exchange rate from the group's table when a foreign currency is picked,
+  // using the rate effective on the expense or payment date (YYYY-MM-DD)
+  const lookupRate = useCallback((currency: string, date: string) => {
+    const rate = findEffectiveRate(exchangeRates, currency, baseCurrency, date ? new Date(`${date}T00:00:00`) : new Date());
+    return rate === null ? '' : rate.toString();
+  }, [exchangeRates, baseCurrency]);
+
+  const handleUpdateGroupSettings = useCallback(async (updates: Partial<Group>) => {
+    if (!groupId || !group) return;
+    try {
+      await updateGroup(groupId, updates);
+      setGroup({ ...group, ...updates });
+      showToast('✅ Group settings saved', 'success');
+    } catch (error) {
+      console.error('Error updating group settings:', error);
+      showToast('❌ Failed to save group settings. Please try again.', 'error');
+    }
+  }, [groupId, group, showToast]);
 
   const handleShareInvite = useCallback(async () => {
     if (!groupId || !group) return;
@@ -399,6 +954,16 @@ export const GroupDetails = () => {
         </div>
       )}
       
+      {group.archived && (
+        <div className="mb-6 bg-gray-800 border border-gray-600 rounded-lg p-4 flex items-center gap-3">
+          <span className="text-2xl">📦</span>
+          <p className="text-gray-300 text-sm">
+            This group was archived on {group.archived.archivedAt.toLocaleDateString()}. Its expenses and payments
+            are read-only{isAdmin ? '; unarchive it from Settings to make changes' : ''}.
+          </p>
+        </div>
+      )}
+      
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
         <div className="flex-1 min-w-0">
           <Link to="/groups" className="text-blue-400 hover:text-blue-300 mb-2 inline-block text-sm sm:text-base">
@@ -437,18 +1002,20 @@ export const GroupDetails = () => {
             <span className="hidden sm:inline">Invite via Link</span>
             <span className="sm:hidden">Invite</span>
           </button>
-          <button
-            onClick={() => {
-              resetExpenseForm();
-              if (user) {
-                setSelectedPaidBy(user.uid);
-              }
-              setShowExpenseModal(true);
-            }}
-            className="bg-blue-600 hover:bg-blue-700 px-4 sm:px-6 py-2 rounded-lg transition-colors text-sm sm:text-base"
-          >
-            + Add Expense
-          </button>
+          {!group.archived && (
+            <button
+              onClick={() => {
+                resetExpenseForm();
+                if (user) {
+                  setSelectedPaidBy(user.uid);
+                }
+                setShowExpenseModal(true);
+              }}
+              className="bg-blue-600 hover:bg-blue-700 px-4 sm:px-6 py-2 rounded-lg transition-colors text-sm sm:text-base"
+            >
+              + Add Expense
+            </button>
+          )}
         </div>
       </div>
 
@@ -494,59 +1061,163 @@ export const GroupDetails = () => {
         >
           Members ({group.members.length})
         </button>
+        <button
+          onClick={() => setActiveTab('settings')}
+          className={`pb-2 px-2 sm:px-4 whitespace-nowrap text-sm sm:text-base ${
+            activeTab === 'settings'
+              ? 'border-b-2 border-blue-500 text-blue-400'
+              : 'text-gray-400 hover:text-gray-300'
+          }`}
+        >
+          Settings
+        </button>
       </div>
 
       {/* Expenses Tab */}
       {activeTab === 'expenses' && (
         <div>
+          <RecurringExpensesPanel
+            groupId={group.id}
+            recurringExpenses={recurringExpenses}
+            baseCurrency={baseCurrency}
+            getMemberName={getMemberName}
+            showToast={showToast}
+          />
+          <BudgetsPanel
+            groupId={group.id}
+            budgets={budgets}
+            expenses={ratedBudgetExpenses || []}
+            categories={categories}
+            baseCurrency={baseCurrency}
+            isAdmin={isAdmin}
+            userId={user.uid}
+            showToast={showToast}
+          />
+          <CategoryBreakdownPanel
+            expenses={ratedExpenses}
+            categories={categories}
+            baseCurrency={baseCurrency}
+            getMemberName={getMemberName}
+          />
+          {expenses.length > 0 && (
+            <ExpenseFilters
+              query={expenseQuery}
+              onChange={updateExpenseQuery}
+              onClear={clearExpenseFilters}
+              onExport={handleExportLedger}
+              members={group.members}
+              categories={categories}
+              baseCurrency={baseCurrency}
+              getMemberName={getMemberName}
+              matchCount={filteredExpenses.length}
+              totalCount={expenses.length}
+            />
+          )}
           {expenses.length === 0 ? (
             <div className="text-center py-8 sm:py-12 bg-gray-800 rounded-lg">
               <p className="text-gray-400 text-sm sm:text-base">No expenses yet. Add one to get started!</p>
             </div>
+          ) : filteredExpenses.length === 0 ? (
+            <div className="text-center py-8 sm:py-12 bg-gray-800 rounded-lg">
+              <p className="text-gray-400 text-sm sm:text-base">No expenses match these filters.</p>
+            </div>
           ) : (
-            <div className="space-y-3 sm:space-y-4">
-              {expenses.map((expense) => {
-                const paidByUser = users.get(expense.paidBy);
-                const sharedWithUsers = expense.sharedWith
-                  .map((id) => users.get(id))
-                  .filter(Boolean) as User[];
-                const amountPerPerson = expense.amount / expense.sharedWith.length;
+            <div className="space-y-4 sm:space-y-6">
+              {expensesByMonth.map(({ label, expenses: monthExpenses }) => (
+                <div key={label || 'all'}>
+                  {label && <h3 className="text-sm sm:text-base font-semibold text-gray-400 mb-2 sm:mb-3">{label}</h3>}
+                  <div className="space-y-3 sm:space-y-4">
+                    {monthExpenses.map((expense) => {
+                      const shares = getExpenseShares(expense, baseCurrency);
+                      const expenseCurrencyCode = expense.currency || baseCurrency;
+                      const [ratedExpense] = applyExchangeRates([expense], exchangeRates, baseCurrency);
+                      const payerEntries = Array.from(getExpensePayerCents(expense, baseCurrency).entries());
+                      const category = getCategory(categories, expense.category);
 
-                return (
-                  <div key={expense.id} className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
-                    <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 sm:gap-3 mb-2">
-                      <h3 className="text-lg sm:text-xl font-semibold">{expense.title}</h3>
-                      <div className="flex items-center gap-2 sm:gap-3">
-                        <span className="text-xl sm:text-2xl font-bold text-green-400">
-                          ${expense.amount.toFixed(2)}
-                        </span>
-                        {expense.createdBy === user?.uid && (
-                          <button
-                            onClick={() => handleEditExpense(expense)}
-                            className="text-blue-400 hover:text-blue-300 px-2 sm:px-3 py-1 rounded transition-colors text-sm sm:text-base"
-                            title="Edit expense"
-                          >
-                            ✏️ <span className="hidden sm:inline">Edit</span>
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                    <p className="text-gray-400 mb-2 sm:mb-3 text-sm sm:text-base">
-                      Paid by <span className="text-white font-semibold">{paidByUser?.name || 'Unknown'}</span>
-                    </p>
-                    <div className="text-xs sm:text-sm text-gray-300">
-                      <p className="mb-1">Shared with:</p>
-                      <ul className="list-disc list-inside mt-1 space-y-0.5">
-                        {sharedWithUsers.map((u) => (
-                          <li key={u.uid}>
-                            {u.name} - ${amountPerPerson.toFixed(2)}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
+                      return (
+                        <div key={expense.id} className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+                          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2 sm:gap-3 mb-2">
+                            <h3 className="text-lg sm:text-xl font-semibold">
+                              {expense.title}
+                              {expense.recurringExpenseId && (
+                                <span className="ml-2 text-xs text-gray-400 font-normal" title="Added from a recurring expense">🔁</span>
+                              )}
+                            </h3>
+                            <div className="flex items-center gap-2 sm:gap-3">
+                              <span className="text-xl sm:text-2xl font-bold text-green-400">
+                                {formatMoney(expense.amount, expenseCurrencyCode)}
+                              </span>
+                              {ratedExpense.currency && ratedExpense.currency !== baseCurrency && (
+                                <span className="text-xs sm:text-sm text-gray-400" title={`1 ${expenseCurrencyCode} = ${ratedExpense.exchangeRate || 1} ${baseCurrency}`}>
+                                  ≈ {formatMoney(fromMinorUnits(toBaseUnits(expense.amount, ratedExpense, baseCurrency), baseCurrency), baseCurrency)}
+                                </span>
+                              )}
+                              <button
+                                onClick={() => setOpenCommentsId(openCommentsId === expense.id ? null : expense.id)}
+                                className={`px-2 py-1 rounded-full text-xs sm:text-sm transition-colors ${
+                                  openCommentsId === expense.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                }`}
+                                title={openCommentsId === expense.id ? 'Hide comments' : 'Show comments'}
+                              >
+                                💬 {commentCounts[expense.id] || 0}
+                              </button>
+                              {expense.createdBy === user?.uid &&
+                                !group.archived &&
+                                !isInClosedPeriod(expense.date, latestCheckpoint?.endDate) && (
+                                <button
+                                  onClick={() => handleEditExpense(expense)}
+                                  className="text-blue-400 hover:text-blue-300 px-2 sm:px-3 py-1 rounded transition-colors text-sm sm:text-base"
+                                  title="Edit expense"
+                                >
+                                  ✏️ <span className="hidden sm:inline">Edit</span>
+                                </button>
+                              )}
+                            </div>
+                          </div>
+                          <p className="text-gray-400 text-xs sm:text-sm mb-1">
+                            {category.icon} {category.label} • {expense.date.toLocaleDateString()}
+                          </p>
+                          {expense.notes && (
+                            <p className="text-gray-300 text-xs sm:text-sm mb-1 whitespace-pre-wrap break-words">{expense.notes}</p>
+                          )}
+                          <p className="text-gray-400 mb-2 sm:mb-3 text-sm sm:text-base">
+                            Paid by{' '}
+                            {payerEntries.length > 1 ? (
+                              payerEntries.map(([payerId, cents], idx) => (
+                                <span key={payerId}>
+                                  {idx > 0 && (idx === payerEntries.length - 1 ? ' and ' : ', ')}
+                                  <span className="text-white font-semibold">{getMemberName(payerId)}</span>
+                                  {` (${formatMoney(fromMinorUnits(cents, expenseCurrencyCode), expenseCurrencyCode)})`}
+                                </span>
+                              ))
+                            ) : (
+                              <span className="text-white font-semibold">{getMemberName(expense.paidBy)}</span>
+                            )}
+                          </p>
+                          <div className="text-xs sm:text-sm text-gray-300">
+                            <p className="mb-1">Shared with:</p>
+                            <ul className="list-disc list-inside mt-1 space-y-0.5">
+                              {expense.sharedWith.map((memberId) => (
+                                <li key={memberId}>
+                                  {getMemberName(memberId)} - {formatMoney(shares.get(memberId) || 0, expenseCurrencyCode)}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                          {expense.receipts && expense.receipts.length > 0 && (
+                            <div className="mt-3">
+                              <ReceiptGallery receipts={expense.receipts} />
+                            </div>
+                          )}
+                          {openCommentsId === expense.id && user && (
+                            <ExpenseComments expense={expense} userId={user.uid} userName={user.name} showToast={showToast} />
+                          )}
+                        </div>
+                      );
+                    })}
                   </div>
-                );
-              })}
+                </div>
+              ))}
             </div>
           )}
         </div>
@@ -556,60 +1227,90 @@ export const GroupDetails = () => {
       {activeTab === 'balances' && (
         <div className="space-y-4 sm:space-y-6">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
-            <h3 className="text-xl sm:text-2xl font-semibold">Current Balances</h3>
-            <button
-              onClick={() => {
-                if (balances.length > 0 && group) {
-                  // Pre-fill payment with first balance
-                  const firstBalance = balances[0];
-                  setPaymentFrom(firstBalance.from);
-                  setPaymentTo(firstBalance.to);
-                  setPaymentAmount(firstBalance.amount.toFixed(2));
-                  setPaymentMethod('cash');
-                  setPaymentNote('');
-                }
-                setShowPaymentModal(true);
-              }}
-              disabled={balances.length === 0}
-              className="w-full sm:w-auto bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 sm:px-6 py-2 sm:py-2.5 rounded-lg transition-colors text-sm sm:text-base font-semibold"
-            >
-              💵 Record Payment
-            </button>
+            <div>
+              <h3 className="text-xl sm:text-2xl font-semibold">Current Balances</h3>
+              <p className="text-gray-400 text-xs sm:text-sm mt-1">
+                {group.simplifyDebts
+                  ? 'Debts are simplified to the fewest payments'
+                  : 'Showing who owes whom from each expense'}
+              </p>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+              <button
+                onClick={handleExportBalances}
+                className="w-full sm:w-auto bg-gray-700 hover:bg-gray-600 px-4 py-2 sm:py-2.5 rounded-lg transition-colors text-sm sm:text-base"
+                title="Download balances and the suggested settlement payments as CSV"
+              >
+                ⬇️ Export CSV
+              </button>
+              <Link
+                to={`/groups/${group.id}/statement?member=${user.uid}`}
+                className="w-full sm:w-auto bg-gray-700 hover:bg-gray-600 px-4 py-2 sm:py-2.5 rounded-lg transition-colors text-sm sm:text-base text-center"
+                title="Monthly statement of your share, payments and balance, ready to print"
+              >
+                🧾 Statement
+              </Link>
+              <button
+                onClick={() => {
+                  if (displayedBalances.length > 0 && group) {
+                    // Pre-fill payment with first balance
+                    const firstBalance = displayedBalances[0];
+                    setPaymentFrom(firstBalance.from);
+                    setPaymentTo(firstBalance.to);
+                    setPaymentAmount(formatAmount(firstBalance.amount, baseCurrency));
+                    setPaymentMethod('cash');
+                    setPaymentNote('');
+                  }
+                  setShowPaymentModal(true);
+                }}
+                disabled={displayedBalances.length === 0 || !!group.archived}
+                className="w-full sm:w-auto bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed px-4 sm:px-6 py-2 sm:py-2.5 rounded-lg transition-colors text-sm sm:text-base font-semibold"
+              >
+                💵 Record Payment
+              </button>
+            </div>
           </div>
 
           <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
-            {balances.length === 0 ? (
+            {displayedBalances.length === 0 ? (
               <p className="text-gray-400 text-center py-4">No balances to show. All settled up! 🎉</p>
             ) : (
               <div className="space-y-2 sm:space-y-3">
-                {balances.map((balance, idx) => {
-                  const fromUser = users.get(balance.from);
-                  const toUser = users.get(balance.to);
+                {displayedBalances.map((balance, idx) => {
                   return (
                     <div key={idx} className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 py-2 sm:py-3 border-b border-gray-700 last:border-0">
-                      <div className="flex-1">
+                      <button
+                        onClick={() => setSelectedBalance(balance)}
+                        className="flex-1 text-left group/balance"
+                        title="See how this balance adds up"
+                      >
                         <span className="text-gray-300 text-sm sm:text-base">
-                          <span className="font-semibold text-white">{fromUser?.name || 'Unknown'}</span> owes{' '}
-                          <span className="font-semibold text-white">{toUser?.name || 'Unknown'}</span>
+                          <span className="font-semibold text-white">{getMemberName(balance.from)}</span> owes{' '}
+                          <span className="font-semibold text-white">{getMemberName(balance.to)}</span>
                         </span>
-                      </div>
+                        <span className="block text-xs text-gray-500 group-hover/balance:text-blue-400 transition-colors">
+                          View breakdown
+                        </span>
+                      </button>
                       <div className="flex items-center gap-3 w-full sm:w-auto">
                         <span className="text-lg sm:text-xl font-bold text-red-400">
-                          ${balance.amount.toFixed(2)}
+                          {formatMoney(balance.amount, baseCurrency)}
                         </span>
-                        <button
-                          onClick={() => {
-                            setPaymentFrom(balance.from);
-                            setPaymentTo(balance.to);
-                            setPaymentAmount(balance.amount.toFixed(2));
-                            setPaymentMethod('cash');
-                            setPaymentNote('');
-                            setShowPaymentModal(true);
-                          }}
-                          className="text-xs sm:text-sm bg-blue-600 hover:bg-blue-700 px-3 sm:px-4 py-1.5 rounded transition-colors"
-                        >
-                          Mark Paid
-                        </button>
+                        {!group.archived && (
+                          <button
+                            onClick={() => {
+                              setPaymentFrom(balance.from);
+                              setPaymentTo(balance.to);
+                              setPaymentAmount(formatAmount(balance.amount, baseCurrency));
+                              setPaymentMethod('cash');
+                              setPaymentNote('');
+                              setShowPaymentModal(true);
+                            }}
+                            className="text-xs sm:text-sm bg-blue-600 hover:bg-blue-700 px-3 sm:px-4 py-1.5 rounded transition-colors"
+                          >
+                            Mark Paid
+                          </button>
+                        )}
                       </div>
                     </div>
                   );
@@ -624,8 +1325,6 @@ export const GroupDetails = () => {
               <h3 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">Recorded Payments</h3>
               <div className="space-y-2 sm:space-y-3">
                 {payments.map((payment) => {
-                  const fromUser = users.get(payment.from);
-                  const toUser = users.get(payment.to);
                   const paymentMethodIcons: Record<string, string> = {
                     cash: '💵',
                     zelle: '🏦',
@@ -638,16 +1337,17 @@ export const GroupDetails = () => {
                       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
                         <div className="flex-1">
                           <p className="text-white text-sm sm:text-base">
-                            <span className="font-semibold">{fromUser?.name || 'Unknown'}</span> paid{' '}
-                            <span className="font-semibold">{toUser?.name || 'Unknown'}</span>
+                            <span className="font-semibold">{getMemberName(payment.from)}</span> paid{' '}
+                            <span className="font-semibold">{getMemberName(payment.to)}</span>
                           </p>
                           <p className="text-gray-400 text-xs sm:text-sm mt-1">
-                            {paymentMethodIcons[payment.paymentMethod]} {payment.paymentMethod.charAt(0).toUpperCase() + payment.paymentMethod.slice(1)}
+                            {payment.date.toLocaleDateString()} • {paymentMethodIcons[payment.paymentMethod]}{' '}
+                            {payment.paymentMethod.charAt(0).toUpperCase() + payment.paymentMethod.slice(1)}
                             {payment.note && ` • ${payment.note}`}
                           </p>
                         </div>
                         <span className="text-lg sm:text-xl font-bold text-green-400">
-                          ${payment.amount.toFixed(2)}
+                          {formatMoney(payment.amount, payment.currency || baseCurrency)}
                         </span>
                       </div>
                     </div>
@@ -657,33 +1357,23 @@ export const GroupDetails = () => {
             </div>
           )}
 
-          <div className="bg-blue-900 bg-opacity-30 rounded-lg p-4 sm:p-6 border border-blue-700">
-            <h3 className="text-lg sm:text-xl font-semibold mb-3 sm:mb-4">💡 Optimized Settlements</h3>
-            <p className="text-gray-300 mb-3 sm:mb-4 text-xs sm:text-sm">
-              These transactions minimize the total number of payments needed:
-            </p>
-            {settlements.length === 0 ? (
-              <p className="text-gray-400 text-center py-2">Everyone is all settled up! 🎉</p>
-            ) : (
-              <div className="space-y-2 sm:space-y-3">
-                {settlements.map((settlement, idx) => {
-                  const fromUser = users.get(settlement.from);
-                  const toUser = users.get(settlement.to);
-                  return (
-                    <div key={idx} className="bg-gray-800 rounded-lg p-3 sm:p-4 border border-blue-600">
-                      <p className="text-white text-sm sm:text-base">
-                        <span className="font-bold">{fromUser?.name || 'Unknown'}</span> should pay{' '}
-                        <span className="font-bold">{toUser?.name || 'Unknown'}</span>
-                      </p>
-                      <p className="text-xl sm:text-2xl font-bold text-green-400 mt-2">
-                        ${settlement.amount.toFixed(2)}
-                      </p>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
-          </div>
+          <SettlementPlannerPanel
+            balances={balances}
+            members={group.members}
+            baseCurrency={baseCurrency}
+            getMemberName={getMemberName}
+          />
+
+          <BalancePeriodsPanel
+            groupId={group.id}
+            checkpoints={checkpoints}
+            baseCurrency={baseCurrency}
+            simplifyDebts={!!group.simplifyDebts}
+            canClose={isAdmin && !group.archived}
+            user={user}
+            getMemberName={getMemberName}
+            showToast={showToast}
+          />
         </div>
       )}
 
@@ -798,6 +1488,14 @@ export const GroupDetails = () => {
                       }`}>
                         {member.role === 'admin' ? 'Admin' : 'Member'}
                       </span>
+                      {canRemoveMember(member.uid) && (
+                        <button
+                          onClick={() => setRemovingMemberId(member.uid)}
+                          className="text-xs sm:text-sm bg-gray-600 hover:bg-red-600 px-2 sm:px-3 py-1 rounded transition-colors"
+                        >
+                          {member.uid === user.uid ? 'Leave' : 'Remove'}
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -821,13 +1519,21 @@ export const GroupDetails = () => {
                         )}
                         <div>
                           <p className="font-semibold text-white">
-                            {memberUser?.name || 'Unknown'}
+                            {getMemberName(memberId)}
                             {memberId === user.uid && ' (You)'}
                             {memberId === group.createdBy && ' 👑'}
                           </p>
                           <p className="text-sm text-gray-400">{memberUser?.email || ''}</p>
                         </div>
                       </div>
+                      {canRemoveMember(memberId) && (
+                        <button
+                          onClick={() => setRemovingMemberId(memberId)}
+                          className="text-xs sm:text-sm bg-gray-600 hover:bg-red-600 px-2 sm:px-3 py-1 rounded transition-colors"
+                        >
+                          {memberId === user.uid ? 'Leave' : 'Remove'}
+                        </button>
+                      )}
                     </div>
                   );
                 })}
@@ -835,6 +1541,83 @@ export const GroupDetails = () => {
             )}
           </div>
 
+          {/* People who rejoined are listed as members again */}
+          {Object.values(group.formerMembers || {}).some((former) => !group.members.includes(former.uid)) && (
+            <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+              <h4 className="text-base sm:text-lg font-semibold text-white mb-3">Former Members</h4>
+              <div className="space-y-2">
+                {Object.values(group.formerMembers || {})
+                  .filter((former: FormerMember) => !group.members.includes(former.uid))
+                  .sort((a, b) => b.leftAt.getTime() - a.leftAt.getTime())
+                  .map((former: FormerMember) => (
+                    <div key={former.uid} className="flex items-center justify-between gap-2 p-3 bg-gray-700 bg-opacity-50 rounded-lg">
+                      <div className="min-w-0">
+                        <p className="text-gray-300 text-sm sm:text-base truncate">{former.name}</p>
+                        <p className="text-xs text-gray-500 truncate">{former.email}</p>
+                      </div>
+                      <span className="text-xs text-gray-400 text-right flex-shrink-0">
+                        {former.removedBy ? `Removed by ${getMemberName(former.removedBy)}` : 'Left'}{' '}
+                        {former.leftAt.toLocaleDateString()}
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Settings Tab */}
+      {activeTab === 'settings' && (
+        <div className="space-y-4 sm:space-y-6">
+          <GroupSettings
+            group={group}
+            isAdmin={isAdmin}
+            hasLedgerEntries={expenses.length > 0 || payments.length > 0}
+            onUpdate={handleUpdateGroupSettings}
+          />
+          <ExchangeRatesPanel
+            groupId={group.id}
+            baseCurrency={baseCurrency}
+            rates={exchangeRates}
+            expenses={expenses}
+            payments={payments}
+            checkpoint={latestCheckpoint}
+            isAdmin={isAdmin && !group.archived}
+            userId={user.uid}
+            getMemberName={getMemberName}
+            showToast={showToast}
+          />
+          <GroupBackupPanel
+            group={group}
+            hasLedgerEntries={expenses.length > 0 || payments.length > 0}
+            isAdmin={isAdmin && !group.archived}
+            user={user}
+            getMemberName={getMemberName}
+            showToast={showToast}
+          />
+          <SplitwiseImportPanel
+            groupId={group.id}
+            members={group.members}
+            baseCurrency={baseCurrency}
+            exchangeRates={exchangeRates}
+            categories={categories}
+            isAdmin={isAdmin && !group.archived}
+            userId={user.uid}
+            userName={user.name}
+            getMemberName={getMemberName}
+            showToast={showToast}
+          />
+          <ArchiveGroupPanel
+            group={group}
+            balances={ledger && displayedBalances}
+            baseCurrency={baseCurrency}
+            isAdmin={isAdmin}
+            user={user}
+            getMemberName={getMemberName}
+            onChange={(archived) => setGroup({ ...group, archived })}
+            showToast={showToast}
+          />
         </div>
       )}
 
@@ -854,60 +1637,300 @@ export const GroupDetails = () => {
                 className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 mb-3 sm:mb-4 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
                 required
               />
+              <textarea
+                value={expenseNotes}
+                onChange={(e) => setExpenseNotes(e.target.value)}
+                placeholder="Notes (optional)"
+                rows={2}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 mb-3 sm:mb-4 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <select
+                value={expenseCategory}
+                onChange={(e) => setExpenseCategory(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 mb-3 sm:mb-4 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Category"
+              >
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>{category.icon} {category.label}</option>
+                ))}
+              </select>
               <input
-                type="number"
-                step="0.01"
-                min="0.01"
-                value={expenseAmount}
-                onChange={(e) => setExpenseAmount(e.target.value)}
-                placeholder="Amount"
+                type="date"
+                value={expenseDate}
+                onChange={(e) => setExpenseDate(e.target.value)}
                 className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 mb-3 sm:mb-4 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Date"
                 required
               />
-              <div className="mb-3 sm:mb-4">
-                <label className="block text-gray-300 mb-2 text-sm sm:text-base">Paid by:</label>
-                <select
-                  value={selectedPaidBy}
-                  onChange={(e) => setSelectedPaidBy(e.target.value)}
-                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+              <div className="flex gap-2 mb-3 sm:mb-4">
+                <input
+                  type="number"
+                  step={getAmountStep(expenseCurrency || baseCurrency)}
+                  min={getAmountStep(expenseCurrency || baseCurrency)}
+                  value={splitType === 'itemized' ? formatAmount(splitPreview.amount, expenseCurrency || baseCurrency) : expenseAmount}
+                  onChange={(e) => setExpenseAmount(e.target.value)}
+                  placeholder="Amount"
+                  className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500 read-only:opacity-70"
+                  readOnly={splitType === 'itemized'}
+                  title={splitType === 'itemized' ? 'Calculated from the line items, tax and tip' : undefined}
                   required
+                />
+                <select
+                  value={expenseCurrency || baseCurrency}
+                  onChange={(e) => {
+                    setExpenseCurrency(e.target.value === baseCurrency ? '' : e.target.value);
+                    setExpenseRate(lookupRate(e.target.value, expenseDate));
+                  }}
+                  className="bg-gray-700 border border-gray-600 rounded-lg px-2 sm:px-3 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Currency"
                 >
-                  {group.members.map((memberId) => {
-                    const memberUser = users.get(memberId);
-                    return (
-                      <option key={memberId} value={memberId}>
-                        {memberUser?.name || 'Unknown'}
-                        {memberId === user?.uid && ' (You)'}
-                      </option>
-                    );
-                  })}
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
                 </select>
               </div>
+              {expenseCurrency && expenseCurrency !== baseCurrency && (
+                <div className="flex items-center gap-2 mb-3 sm:mb-4 text-gray-300 text-sm sm:text-base">
+                  <span className="whitespace-nowrap">1 {expenseCurrency} =</span>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={expenseRate}
+                    onChange={(e) => setExpenseRate(e.target.value)}
+                    placeholder="Exchange rate"
+                    className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <span>{baseCurrency}</span>
+                </div>
+              )}
               <div className="mb-3 sm:mb-4">
-                <label className="block text-gray-300 mb-2 text-sm sm:text-base">Split with:</label>
-                <div className="space-y-2 max-h-48 overflow-y-auto">
-                  {group.members.map((memberId) => {
-                    const memberUser = users.get(memberId);
-                    return (
-                      <label
-                        key={memberId}
-                        className="flex items-center space-x-2 cursor-pointer hover:bg-gray-700 p-2 rounded"
-                      >
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-gray-300 text-sm sm:text-base">Paid by:</label>
+                  <label className="flex items-center gap-2 text-gray-400 text-xs sm:text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={multiplePayers}
+                      onChange={(e) => setMultiplePayers(e.target.checked)}
+                      className="w-4 h-4 text-blue-600 rounded"
+                    />
+                    Multiple payers
+                  </label>
+                </div>
+                {multiplePayers ? (
+                  <div className="space-y-2">
+                    {group.members.map((memberId) => {
+                      return (
+                        <div key={memberId} className="flex items-center justify-between gap-2">
+                          <span className="text-gray-300 text-sm sm:text-base truncate">
+                            {getMemberName(memberId)}
+                            {memberId === user?.uid && ' (You)'}
+                          </span>
+                          <input
+                            type="number"
+                            step={getAmountStep(expenseCurrency || baseCurrency)}
+                            min="0"
+                            value={payerValues[memberId] || ''}
+                            onChange={(e) => setPayerValues((prev) => ({ ...prev, [memberId]: e.target.value }))}
+                            placeholder="0.00"
+                            className="w-24 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <select
+                    value={selectedPaidBy}
+                    onChange={(e) => setSelectedPaidBy(e.target.value)}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  >
+                    {group.members.map((memberId) => {
+                      return (
+                        <option key={memberId} value={memberId}>
+                          {getMemberName(memberId)}
+                          {memberId === user?.uid && ' (You)'}
+                        </option>
+                      );
+                    })}
+                  </select>
+                )}
+              </div>
+              {splitType !== 'itemized' && (
+                <div className="mb-3 sm:mb-4">
+                  <label className="block text-gray-300 mb-2 text-sm sm:text-base">Split with:</label>
+                  <div className="space-y-2 max-h-48 overflow-y-auto">
+                    {group.members.map((memberId) => {
+                      return (
+                        <label
+                          key={memberId}
+                          className="flex items-center space-x-2 cursor-pointer hover:bg-gray-700 p-2 rounded"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={selectedMembers.includes(memberId)}
+                            onChange={() => toggleMember(memberId)}
+                            className="w-4 h-4 text-blue-600 rounded flex-shrink-0"
+                          />
+                          <span className="text-gray-300 text-sm sm:text-base">
+                            {getMemberName(memberId)}
+                            {memberId === user?.uid && ' (You)'}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              <div className="mb-3 sm:mb-4">
+                <label className="block text-gray-300 mb-2 text-sm sm:text-base">Split:</label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-2">
+                  {(['equal', 'exact', 'percentage', 'shares', 'itemized'] as const).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => setSplitType(type)}
+                      className={`px-3 sm:px-4 py-2 rounded-lg transition-colors text-sm sm:text-base ${
+                        splitType === type
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      }`}
+                    >
+                      {SPLIT_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+                {splitType === 'itemized' && (
+                  <ItemizedEditor
+                    members={group.members}
+                    currency={expenseCurrency || baseCurrency}
+                    getMemberName={(memberId) => `${getMemberName(memberId)}${memberId === user?.uid ? ' (You)' : ''}`}
+                    items={expenseItems}
+                    onItemsChange={setExpenseItems}
+                    tax={expenseTax}
+                    onTaxChange={setExpenseTax}
+                    tip={expenseTip}
+                    onTipChange={setExpenseTip}
+                  />
+                )}
+                {(splitType === 'itemized' ? expenseItems.length > 0 : selectedMembers.length > 0) && (
+                  <div className="space-y-2">
+                    {Array.from(splitPreview.shares.keys()).map((memberId) => {
+                      return (
+                        <div key={memberId} className="flex items-center justify-between gap-2">
+                          <span className="text-gray-300 text-sm sm:text-base truncate">
+                            {getMemberName(memberId)}
+                            {memberId === user?.uid && ' (You)'}
+                          </span>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            {usesSplitValues(splitType) && (
+                              <>
+                                <input
+                                  type="number"
+                                  step={splitType === 'shares' ? '1' : splitType === 'exact' ? getAmountStep(expenseCurrency || baseCurrency) : '0.01'}
+                                  min="0"
+                                  value={splitValues[memberId] || ''}
+                                  onChange={(e) => setSplitValues((prev) => ({ ...prev, [memberId]: e.target.value }))}
+                                  placeholder={splitType === 'shares' ? '1' : '0.00'}
+                                  className="w-24 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <span className="text-gray-400 text-xs w-10">
+                                  {splitType === 'exact' ? expenseCurrency || baseCurrency : splitType === 'percentage' ? '%' : 'shares'}
+                                </span>
+                              </>
+                            )}
+                            <span className="text-gray-300 text-sm w-20 text-right">
+                              {formatMoney(splitPreview.shares.get(memberId) || 0, expenseCurrency || baseCurrency)}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {splitPreview.error ? (
+                      <p className="text-xs sm:text-sm text-yellow-400">{splitPreview.error}</p>
+                    ) : (
+                      (usesSplitValues(splitType) || splitType === 'itemized') && (
+                        <p className="text-xs sm:text-sm text-green-400">Split adds up to the total</p>
+                      )
+                    )}
+                  </div>
+                )}
+              </div>
+              {!repeatFrequency && (
+                <div className="mb-4 sm:mb-6">
+                  <label className="block text-gray-300 mb-2 text-sm sm:text-base">Receipts (optional):</label>
+                  {editingExpense && (
+                    <div className="mb-2">
+                      <ReceiptGallery
+                        receipts={expenses.find((expense) => expense.id === editingExpense.id)?.receipts || []}
+                        onRemove={handleRemoveReceipt}
+                      />
+                    </div>
+                  )}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={(e) => setReceiptFiles(Array.from(e.target.files || []))}
+                    className="block w-full text-sm text-gray-300 file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-gray-600 file:text-white hover:file:bg-gray-500"
+                  />
+                  {receiptFiles.length > 0 && (
+                    <p className="text-gray-500 text-xs mt-1">
+                      {receiptFiles.length} image{receiptFiles.length === 1 ? '' : 's'} will be resized and uploaded when you save
+                    </p>
+                  )}
+                </div>
+              )}
+              {!editingExpense && (
+                <div className="mb-4 sm:mb-6">
+                  <label className="block text-gray-300 mb-2 text-sm sm:text-base">Repeat:</label>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={repeatFrequency}
+                      onChange={(e) => setRepeatFrequency(e.target.value as RecurrenceFrequency | '')}
+                      className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="">Doesn't repeat</option>
+                      {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                        <option key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</option>
+                      ))}
+                    </select>
+                    {repeatFrequency === 'custom' && (
+                      <label className="flex items-center gap-2 text-gray-300 text-sm">
+                        every
                         <input
-                          type="checkbox"
-                          checked={selectedMembers.includes(memberId)}
-                          onChange={() => toggleMember(memberId)}
-                          className="w-4 h-4 text-blue-600 rounded flex-shrink-0"
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={repeatIntervalDays}
+                          onChange={(e) => setRepeatIntervalDays(e.target.value)}
+                          className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-2 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          required
                         />
-                        <span className="text-gray-300 text-sm sm:text-base">
-                          {memberUser?.name || 'Unknown'}
-                          {memberId === user?.uid && ' (You)'}
-                        </span>
+                        days
                       </label>
-                    );
-                  })}
+                    )}
+                    {repeatFrequency && (
+                      <label className="flex items-center gap-2 text-gray-300 text-sm">
+                        until
+                        <input
+                          type="date"
+                          value={repeatEndDate}
+                          onChange={(e) => setRepeatEndDate(e.target.value)}
+                          className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                      </label>
+                    )}
+                  </div>
+                  {repeatFrequency && (
+                    <p className="text-gray-500 text-xs mt-1">
+                      Starts on the expense date, then adds itself each time it comes due. Leave the end date empty to repeat indefinitely.
+                    </p>
+                  )}
                 </div>
-              </div>
+              )}
               <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3 sm:space-x-3">
                 <button
                   type="button"
@@ -918,7 +1941,7 @@ export const GroupDetails = () => {
                 </button>
                 <button
                   type="submit"
-                  disabled={selectedMembers.length === 0}
+                  disabled={splitType === 'itemized' ? expenseItems.length === 0 : selectedMembers.length === 0}
                   className="w-full sm:w-auto px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm sm:text-base"
                 >
                   {editingExpense ? 'Update Expense' : 'Add Expense'}
@@ -929,6 +1952,39 @@ export const GroupDetails = () => {
         </div>
       )}
 
+      {selectedBalance && balanceBreakdown && (
+        <BalanceBreakdownModal
+          breakdown={balanceBreakdown}
+          displayedAmount={selectedBalance.amount}
+          baseCurrency={baseCurrency}
+          getMemberName={getMemberName}
+          onClose={() => setSelectedBalance(null)}
+        />
+      )}
+
+      {removingMemberId && (
+        <RemoveMemberModal
+          group={group}
+          memberId={removingMemberId}
+          balances={ledger && displayedBalances}
+          baseCurrency={baseCurrency}
+          user={user}
+          getMemberName={getMemberName}
+          onSettle={(balance) => {
+            setRemovingMemberId(null);
+            setPaymentFrom(balance.from);
+            setPaymentTo(balance.to);
+            setPaymentAmount(formatAmount(balance.amount, baseCurrency));
+            setPaymentMethod('cash');
+            setPaymentNote('');
+            setShowPaymentModal(true);
+          }}
+          onRemoved={handleMemberRemoved}
+          onClose={() => setRemovingMemberId(null)}
+          showToast={showToast}
+        />
+      )}
+
       {/* Payment Modal */}
       {showPaymentModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -945,10 +2001,9 @@ export const GroupDetails = () => {
                 >
                   <option value="">Select who paid</option>
                   {group.members.map((memberId) => {
-                    const memberUser = users.get(memberId);
                     return (
                       <option key={memberId} value={memberId}>
-                        {memberUser?.name || 'Unknown'}
+                        {getMemberName(memberId)}
                         {memberId === user?.uid && ' (You)'}
                       </option>
                     );
@@ -968,10 +2023,9 @@ export const GroupDetails = () => {
                   {group.members
                     .filter((memberId) => memberId !== paymentFrom)
                     .map((memberId) => {
-                      const memberUser = users.get(memberId);
                       return (
                         <option key={memberId} value={memberId}>
-                          {memberUser?.name || 'Unknown'}
+                          {getMemberName(memberId)}
                           {memberId === user?.uid && ' (You)'}
                         </option>
                       );
@@ -981,16 +2035,47 @@ export const GroupDetails = () => {
 
               <div className="mb-4">
                 <label className="block text-gray-300 mb-2 text-sm sm:text-base">Amount:</label>
-                <input
-                  type="number"
-                  step="0.01"
-                  min="0.01"
-                  value={paymentAmount}
-                  onChange={(e) => setPaymentAmount(e.target.value)}
-                  placeholder="0.00"
-                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
-                />
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    step={getAmountStep(paymentCurrency || baseCurrency)}
+                    min={getAmountStep(paymentCurrency || baseCurrency)}
+                    value={paymentAmount}
+                    onChange={(e) => setPaymentAmount(e.target.value)}
+                    placeholder="0.00"
+                    className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                  <select
+                    value={paymentCurrency || baseCurrency}
+                    onChange={(e) => {
+                      setPaymentCurrency(e.target.value === baseCurrency ? '' : e.target.value);
+                      setPaymentRate(lookupRate(e.target.value, paymentDate));
+                    }}
+                    className="bg-gray-700 border border-gray-600 rounded-lg px-2 sm:px-3 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label="Currency"
+                  >
+                    {SUPPORTED_CURRENCIES.map((code) => (
+                      <option key={code} value={code}>{code}</option>
+                    ))}
+                  </select>
+                </div>
+                {paymentCurrency && paymentCurrency !== baseCurrency && (
+                  <div className="flex items-center gap-2 mt-2 text-gray-300 text-sm sm:text-base">
+                    <span className="whitespace-nowrap">1 {paymentCurrency} =</span>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={paymentRate}
+                      onChange={(e) => setPaymentRate(e.target.value)}
+                      placeholder="Exchange rate"
+                      className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      required
+                    />
+                    <span>{baseCurrency}</span>
+                  </div>
+                )}
               </div>
 
               <div className="mb-4">
@@ -1018,6 +2103,17 @@ export const GroupDetails = () => {
                 </div>
               </div>
 
+              <div className="mb-4">
+                <label className="block text-gray-300 mb-2 text-sm sm:text-base">Date:</label>
+                <input
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                  className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
               <div className="mb-4">
                 <label className="block text-gray-300 mb-2 text-sm sm:text-base">Note (optional):</label>
                 <input
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import type { Group } from '../types';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../utils/money';
+import { BUILT_IN_CATEGORIES } from '../utils/categories';
+
+interface GroupSettingsProps {
+  group: Group;
+  isAdmin: boolean;
+  hasLedgerEntries: boolean;
+  onUpdate: (updates: Partial<Group>) => void;
+}
+
+export const GroupSettings = ({ group, isAdmin, hasLedgerEntries, onUpdate }: GroupSettingsProps) => {
+  const baseCurrency = group.baseCurrency || DEFAULT_CURRENCY;
+  const customCategories = group.customCategories || [];
+  const [newCategory, setNewCategory] = useState('');
+
+  const handleAddCategory = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCategory.trim();
+    if (!name) return;
+    const taken = [...BUILT_IN_CATEGORIES.flatMap((category) => [category.id, category.label]), ...customCategories]
+      .some((existing) => existing.toLowerCase() === name.toLowerCase());
+    if (!taken) {
+      onUpdate({ customCategories: [...customCategories, name] });
+    }
+    setNewCategory('');
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <h3 className="text-lg sm:text-xl font-semibold">Group Settings</h3>
+
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+        <h4 className="text-base sm:text-lg font-semibold text-white mb-1">Base Currency</h4>
+        <p className="text-gray-400 text-xs sm:text-sm mb-3">
+          Balances and settlements are shown in this currency. Expenses and payments in other currencies are
+          converted with the group's exchange rate table, or the rate entered with them.
+        </p>
+        <select
+          value={baseCurrency}
+          onChange={(e) => onUpdate({ baseCurrency: e.target.value })}
+          disabled={!isAdmin || hasLedgerEntries}
+          className="w-full sm:w-auto bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {SUPPORTED_CURRENCIES.map((code) => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+        {!isAdmin ? (
+          <p className="text-gray-500 text-xs mt-2">Only group admins can change the base currency.</p>
+        ) : hasLedgerEntries && (
+          <p className="text-gray-500 text-xs mt-2">
+            The base currency can only be changed before any expenses or payments are recorded.
+          </p>
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+        <label className="flex items-start justify-between gap-4 cursor-pointer">
+          <div>
+            <h4 className="text-base sm:text-lg font-semibold text-white mb-1">Simplify Debts</h4>
+            <p className="text-gray-400 text-xs sm:text-sm">
+              Combine debts across the group so everyone settles up in the fewest payments. When off, the Balances
+              tab shows exactly who owes whom from the expenses they shared.
+            </p>
+          </div>
+          <input
+            type="checkbox"
+            checked={!!group.simplifyDebts}
+            onChange={(e) => onUpdate({ simplifyDebts: e.target.checked })}
+            disabled={!isAdmin}
+            className="mt-1 w-5 h-5 flex-shrink-0 accent-blue-600 disabled:opacity-50"
+          />
+        </label>
+        {!isAdmin && (
+          <p className="text-gray-500 text-xs mt-2">Only group admins can change how debts are shown.</p>
+        )}
+      </div>
+
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+        <h4 className="text-base sm:text-lg font-semibold text-white mb-1">Custom Categories</h4>
+        <p className="text-gray-400 text-xs sm:text-sm mb-3">
+          Added alongside the built-in categories. Removing one keeps it on expenses that already use it.
+        </p>
+        {customCategories.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-3">
+            {customCategories.map((name) => (
+              <span key={name} className="flex items-center gap-1 bg-gray-700 rounded-full px-3 py-1 text-xs sm:text-sm text-gray-200">
+                🏷️ {name}
+                {isAdmin && (
+                  <button
+                    onClick={() => onUpdate({ customCategories: customCategories.filter((category) => category !== name) })}
+                    className="text-gray-400 hover:text-red-400 ml-1"
+                    aria-label={`Remove ${name}`}
+                  >
+                    ✕
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+        {isAdmin ? (
+          <form onSubmit={handleAddCategory} className="flex gap-2">
+            <input
+              type="text"
+              value={newCategory}
+              onChange={(e) => setNewCategory(e.target.value)}
+              placeholder="New category"
+              maxLength={40}
+              className="flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!newCategory.trim()}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm"
+            >
+              Add
+            </button>
+          </form>
+        ) : (
+          <p className="text-gray-500 text-xs">Only group admins can manage categories.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -3,15 +3,24 @@ import { Link, useNavigate } from 'react-router-dom';
 import { subscribeToGroups, createGroup } from '../services/firebaseService';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../hooks/useToast';
+import { useFriendBalances } from '../hooks/useFriendBalances';
 import type { Group } from '../types';
+import { parseGroupBackup } from '../utils/groupBackup';
+import type { GroupBackup } from '../utils/groupBackup';
+import { RestoreBackupModal } from './RestoreBackupModal';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, formatMoney } from '../utils/money';
 
 export const GroupsList = () => {
   const { user } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [groupName, setGroupName] = useState('');
+  const [groupCurrency, setGroupCurrency] = useState(DEFAULT_CURRENCY);
   const [loading, setLoading] = useState(false);
+  const [restoringBackup, setRestoringBackup] = useState<GroupBackup | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
   const { showToast, ToastComponent } = useToast();
+  const { groups: groupTotals } = useFriendBalances(user?.uid);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -87,6 +96,7 @@ export const GroupsList = () => {
           name: groupName.trim(),
           createdBy: user.uid,
           members: [user.uid],
+          baseCurrency: groupCurrency,
         },
         {
           uid: user.uid,
@@ -101,6 +111,7 @@ export const GroupsList = () => {
       
       // Success: close modal immediately, reset form, show toast
       setGroupName('');
+      setGroupCurrency(DEFAULT_CURRENCY);
       setShowCreateModal(false);
       setLoading(false); // Reset loading immediately
       
@@ -128,10 +139,26 @@ export const GroupsList = () => {
       console.log('[handleCreateGroup] Showing error toast:', errorMessage);
       showToast(`❌ ${errorMessage}`, 'error');
     }
-  }, [user, groupName, loading, showToast, navigate]);
+  }, [user, groupName, groupCurrency, loading, showToast, navigate]);
 
   if (!user) return null;
 
+  const archivedCount = groups.filter((group) => group.archived).length;
+  const visibleGroups = groups.filter((group) => !!group.archived === (showArchived && archivedCount > 0));
+
+  const handleBackupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    try {
+      setRestoringBackup(parseGroupBackup(await selected.text()));
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to read the backup'}`, 'error');
+    }
+  };
+
   return (
     <div>
       {ToastComponent}
@@ -152,9 +179,29 @@ export const GroupsList = () => {
           >
             + New Group
           </button>
+          <label
+            className="flex-1 sm:flex-none bg-gray-700 hover:bg-gray-600 px-4 sm:px-6 py-2 rounded-lg transition-colors text-sm sm:text-base text-center cursor-pointer"
+            title="Recreate a group from a backup file"
+          >
+            Restore
+            <input type="file" accept=".json,application/json" onChange={handleBackupFileChange} className="hidden" />
+          </label>
         </div>
       </div>
 
+      {restoringBackup && user && (
+        <RestoreBackupModal
+          backup={restoringBackup}
+          user={user}
+          onClose={() => setRestoringBackup(null)}
+          onRestored={(groupId) => {
+            setRestoringBackup(null);
+            navigate(`/groups/${groupId}`);
+          }}
+          showToast={showToast}
+        />
+      )}
+
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
           <div className="bg-gray-800 rounded-lg p-4 sm:p-6 w-full max-w-md">
@@ -179,6 +226,16 @@ export const GroupsList = () => {
                   }
                 }}
               />
+              <label className="block text-gray-300 mb-2 text-sm sm:text-base">Base currency:</label>
+              <select
+                value={groupCurrency}
+                onChange={(e) => setGroupCurrency(e.target.value)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 sm:px-4 py-2 mb-3 sm:mb-4 text-white text-sm sm:text-base focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {SUPPORTED_CURRENCIES.map((code) => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+              </select>
               <div className="flex flex-col sm:flex-row justify-end gap-2 sm:gap-3 sm:space-x-3">
                 <button
                   type="button"
@@ -200,24 +257,61 @@ export const GroupsList = () => {
         </div>
       )}
 
-      {groups.length === 0 ? (
+      {archivedCount > 0 && (
+        <div className="flex gap-2 mb-3 sm:mb-4 text-xs sm:text-sm">
+          {[false, true].map((archived) => (
+            <button
+              key={String(archived)}
+              onClick={() => setShowArchived(archived)}
+              className={`px-3 py-1 rounded-full transition-colors ${
+                showArchived === archived ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+              }`}
+            >
+              {archived ? `Archived (${archivedCount})` : 'Active'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visibleGroups.length === 0 ? (
         <div className="text-center py-12 bg-gray-800 rounded-lg">
-          <p className="text-gray-400 mb-4">No groups yet. Create one to get started!</p>
+          <p className="text-gray-400 mb-4">
+            {groups.length === 0 ? 'No groups yet. Create one to get started!' : 'No active groups. Create one to get started!'}
+          </p>
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
-          {groups.map((group) => (
-            <Link
-              key={group.id}
-              to={`/groups/${group.id}`}
-              className="bg-gray-800 hover:bg-gray-700 rounded-lg p-4 sm:p-6 transition-colors border border-gray-700"
-            >
-              <h3 className="text-lg sm:text-xl font-semibold mb-1 sm:mb-2">{group.name}</h3>
-              <p className="text-gray-400 text-xs sm:text-sm">
-                {group.members.length} member{group.members.length !== 1 ? 's' : ''}
-              </p>
-            </Link>
-          ))}
+          {visibleGroups.map((group) => {
+            const totals = groupTotals[group.id];
+            return (
+              <Link
+                key={group.id}
+                to={`/groups/${group.id}`}
+                className="bg-gray-800 hover:bg-gray-700 rounded-lg p-4 sm:p-6 transition-colors border border-gray-700"
+              >
+                <h3 className="text-lg sm:text-xl font-semibold mb-1 sm:mb-2">{group.name}</h3>
+                <p className="text-gray-400 text-xs sm:text-sm">
+                  {group.members.length} member{group.members.length !== 1 ? 's' : ''}
+                </p>
+                {group.archived ? (
+                  <p className="text-gray-500 text-xs sm:text-sm mt-2 sm:mt-3">
+                    📦 Archived {group.archived.archivedAt.toLocaleDateString()}
+                  </p>
+                ) : totals && (totals.owed > 0 || totals.owing > 0) ? (
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 sm:mt-3 text-xs sm:text-sm">
+                    {totals.owed > 0 && (
+                      <span className="text-green-400">You're owed {formatMoney(totals.owed, totals.currency)}</span>
+                    )}
+                    {totals.owing > 0 && (
+                      <span className="text-red-400">You owe {formatMoney(totals.owing, totals.currency)}</span>
+                    )}
+                  </div>
+                ) : totals && (
+                  <p className="text-gray-500 text-xs sm:text-sm mt-2 sm:mt-3">All settled up</p>
+                )}
+              </Link>
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,129 @@
+import { getAmountStep } from '../utils/money';
+
+export interface ItemDraft {
+  name: string;
+  amount: string;
+  assignedTo: string[];
+}
+
+interface ItemizedEditorProps {
+  members: string[];
+  currency: string; // The expense's currency, for the amount steps
+  getMemberName: (memberId: string) => string;
+  items: ItemDraft[];
+  onItemsChange: (items: ItemDraft[]) => void;
+  tax: string;
+  onTaxChange: (tax: string) => void;
+  tip: string;
+  onTipChange: (tip: string) => void;
+}
+
+export const ItemizedEditor = ({
+  members,
+  currency,
+  getMemberName,
+  items,
+  onItemsChange,
+  tax,
+  onTaxChange,
+  tip,
+  onTipChange,
+}: ItemizedEditorProps) => {
+  const amountStep = getAmountStep(currency);
+  const updateItem = (index: number, changes: Partial<ItemDraft>) => {
+    onItemsChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const toggleAssignee = (index: number, memberId: string) => {
+    const assignedTo = items[index].assignedTo;
+    updateItem(index, {
+      assignedTo: assignedTo.includes(memberId)
+        ? assignedTo.filter((id) => id !== memberId)
+        : [...assignedTo, memberId],
+    });
+  };
+
+  return (
+    <div className="space-y-3 mb-3">
+      {items.map((item, index) => (
+        <div key={index} className="bg-gray-700 rounded-lg p-3 border border-gray-600">
+          <div className="flex items-center gap-2 mb-2">
+            <input
+              type="text"
+              value={item.name}
+              onChange={(e) => updateItem(index, { name: e.target.value })}
+              placeholder="Item"
+              className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="number"
+              step={amountStep}
+              min={amountStep}
+              value={item.amount}
+              onChange={(e) => updateItem(index, { amount: e.target.value })}
+              placeholder="0.00"
+              className="w-24 bg-gray-800 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="button"
+              onClick={() => onItemsChange(items.filter((_, i) => i !== index))}
+              className="text-gray-400 hover:text-red-400 transition-colors"
+              aria-label="Remove item"
+            >
+              ✕
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {members.map((memberId) => (
+              <button
+                key={memberId}
+                type="button"
+                onClick={() => toggleAssignee(index, memberId)}
+                className={`px-2 py-1 rounded-full text-xs transition-colors ${
+                  item.assignedTo.includes(memberId)
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-600 text-gray-300 hover:bg-gray-500'
+                }`}
+              >
+                {getMemberName(memberId)}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onItemsChange([...items, { name: '', amount: '', assignedTo: [] }])}
+        className="w-full px-3 py-2 border border-dashed border-gray-500 hover:border-blue-500 text-gray-300 rounded-lg transition-colors text-sm"
+      >
+        + Add Item
+      </button>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-gray-300 text-sm">
+          Tax
+          <input
+            type="number"
+            step={amountStep}
+            min="0"
+            value={tax}
+            onChange={(e) => onTaxChange(e.target.value)}
+            placeholder="0.00"
+            className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+        <label className="text-gray-300 text-sm">
+          Tip
+          <input
+            type="number"
+            step={amountStep}
+            min="0"
+            value={tip}
+            onChange={(e) => onTipChange(e.target.value)}
+            placeholder="0.00"
+            className="mt-1 w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import type { ReactNode } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, NavLink, useNavigate } from 'react-router-dom';
 import { signOut } from '../services/authService';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -17,8 +17,8 @@ export const Layout = ({ children }: LayoutProps) => {
   };
 
   return (
-    <div className="min-h-screen bg-gray-900 text-white">
-      <nav className="bg-gray-800 border-b border-gray-700">
+    <div className="min-h-screen bg-gray-900 text-white print:min-h-0 print:bg-white print:text-black">
+      <nav className="bg-gray-800 border-b border-gray-700 print:hidden">
         <div className="max-w-7xl mx-auto px-3 sm:px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-14 sm:h-16 items-center">
             <Link to="/groups" className="flex items-center space-x-1 sm:space-x-2">
@@ -26,6 +26,26 @@ export const Layout = ({ children }: LayoutProps) => {
               <span className="text-gray-400">💸</span>
             </Link>
             <div className="flex items-center space-x-2 sm:space-x-4">
+              {user && (
+                <div className="flex items-center space-x-1 sm:space-x-2">
+                  {[
+                    { to: '/groups', label: 'Groups' },
+                    { to: '/friends', label: 'Friends' },
+                  ].map((link) => (
+                    <NavLink
+                      key={link.to}
+                      to={link.to}
+                      className={({ isActive }) =>
+                        `px-2 sm:px-3 py-1.5 rounded-lg transition-colors text-xs sm:text-sm ${
+                          isActive ? 'bg-gray-700 text-white' : 'text-gray-300 hover:text-white'
+                        }`
+                      }
+                    >
+                      {link.label}
+                    </NavLink>
+                  ))}
+                </div>
+              )}
               {user && (
                 <div className="flex items-center space-x-1 sm:space-x-3">
                   {user.photoURL && (
@@ -49,7 +69,7 @@ export const Layout = ({ children }: LayoutProps) => {
           </div>
         </div>
       </nav>
-      <main className="max-w-7xl mx-auto px-3 sm:px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8">
+      <main className="max-w-7xl mx-auto px-3 sm:px-4 sm:px-6 lg:px-8 py-4 sm:py-6 lg:py-8 print:p-0 print:max-w-none">
         {children}
       </main>
     </div>
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import type { Receipt } from '../types';
+import { getReceiptUrl } from '../services/firebaseService';
+
+interface ReceiptGalleryProps {
+  receipts: Receipt[];
+  onRemove?: (receipt: Receipt) => void; // Shows a remove button on each thumbnail when set
+}
+
+// Resolves a Storage path to a download URL, or null while loading or if it failed
+const useReceiptUrl = (path: string | null) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!path) return;
+
+    let cancelled = false;
+    getReceiptUrl(path)
+      .then((downloadUrl) => {
+        if (!cancelled) setUrl(downloadUrl);
+      })
+      .catch((error) => {
+        console.error('Error loading receipt:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return url;
+};
+
+const ReceiptThumbnail = ({ receipt, onOpen }: { receipt: Receipt; onOpen: () => void }) => {
+  const url = useReceiptUrl(receipt.thumbnailPath);
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="w-16 h-16 sm:w-20 sm:h-20 rounded-lg overflow-hidden bg-gray-700 border border-gray-600 hover:border-blue-500 transition-colors flex items-center justify-center"
+      title="View receipt"
+    >
+      {url ? (
+        <img src={url} alt="Receipt" className="w-full h-full object-cover" />
+      ) : (
+        <span className="text-gray-500 text-xl">🧾</span>
+      )}
+    </button>
+  );
+};
+
+export const ReceiptGallery = ({ receipts, onRemove }: ReceiptGalleryProps) => {
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
+  const viewing = viewingIndex !== null ? receipts[viewingIndex] : undefined;
+  const fullUrl = useReceiptUrl(viewing ? viewing.path : null);
+
+  if (receipts.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {receipts.map((receipt, index) => (
+          <div key={receipt.id} className="relative">
+            <ReceiptThumbnail receipt={receipt} onOpen={() => setViewingIndex(index)} />
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(receipt)}
+                className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-red-600 hover:bg-red-700 text-white text-xs leading-none"
+                title="Remove receipt"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {viewing && viewingIndex !== null && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4"
+          onClick={() => setViewingIndex(null)}
+        >
+          <div className="relative max-w-4xl w-full flex flex-col items-center" onClick={(e) => e.stopPropagation()}>
+            {fullUrl ? (
+              <img src={fullUrl} alt="Receipt" className="max-h-[80vh] max-w-full rounded-lg object-contain" />
+            ) : (
+              <p className="text-gray-300 py-12">Loading receipt...</p>
+            )}
+            <div className="flex items-center gap-3 mt-3 text-sm">
+              {receipts.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setViewingIndex((viewingIndex + receipts.length - 1) % receipts.length)}
+                  className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                >
+                  ← Previous
+                </button>
+              )}
+              {receipts.length > 1 && (
+                <span className="text-gray-300">
+                  {viewingIndex + 1} / {receipts.length}
+                </span>
+              )}
+              {receipts.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setViewingIndex((viewingIndex + 1) % receipts.length)}
+                  className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                >
+                  Next →
+                </button>
+              )}
+              {fullUrl && (
+                <a
+                  href={fullUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+                >
+                  Open in new tab
+                </a>
+              )}
+              <button
+                type="button"
+                onClick={() => setViewingIndex(null)}
+                className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import type { RecurringExpense } from '../types';
+import { updateRecurringExpense, setRecurringExpensePaused, skipNextOccurrence, deleteRecurringExpense } from '../services/firebaseService';
+import { describeSchedule, getNextOccurrenceDate } from '../utils/recurrence';
+import { toDateInput } from '../utils/dates';
+import { formatMoney } from '../utils/money';
+
+interface RecurringExpensesPanelProps {
+  groupId: string;
+  recurringExpenses: RecurringExpense[];
+  baseCurrency: string;
+  getMemberName: (memberId: string) => string;
+  showToast: (message: string, type?: 'success' | 'info' | 'error') => void;
+}
+
+export const RecurringExpensesPanel = ({
+  groupId,
+  recurringExpenses,
+  baseCurrency,
+  getMemberName,
+  showToast,
+}: RecurringExpensesPanelProps) => {
+  const [editingEndDateId, setEditingEndDateId] = useState<string | null>(null);
+  const [endDateValue, setEndDateValue] = useState('');
+
+  if (recurringExpenses.length === 0) return null;
+
+  const runUpdate = async (action: () => Promise<void>, successMessage: string) => {
+    try {
+      await action();
+      showToast(successMessage, 'success');
+    } catch (error) {
+      console.error('Error updating recurring expense:', error);
+      showToast('❌ Failed to update recurring expense. Please try again.', 'error');
+    }
+  };
+
+  const handleSaveEndDate = (recurring: RecurringExpense) => {
+    const endDate = endDateValue ? new Date(`${endDateValue}T23:59:59`) : null;
+    if (endDate && endDate < recurring.startDate) {
+      showToast('End date must be on or after the start date', 'error');
+      return;
+    }
+    setEditingEndDateId(null);
+    runUpdate(
+      () => updateRecurringExpense(groupId, recurring.id, { endDate }),
+      endDate ? '✅ End date saved' : '✅ End date removed'
+    );
+  };
+
+  const handleDelete = (recurring: RecurringExpense) => {
+    if (!window.confirm(`Stop repeating "${recurring.title}"? Expenses already added are kept.`)) return;
+    runUpdate(() => deleteRecurringExpense(groupId, recurring.id), '✅ Recurring expense deleted');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700 mb-4 sm:mb-6">
+      <h3 className="text-base sm:text-lg font-semibold mb-3">🔁 Recurring Expenses</h3>
+      <div className="space-y-2 sm:space-y-3">
+        {recurringExpenses.map((recurring) => {
+          const nextDate = getNextOccurrenceDate(recurring);
+          return (
+            <div key={recurring.id} className="bg-gray-700 rounded-lg p-3 sm:p-4">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-2">
+                <div className="min-w-0">
+                  <p className="text-white font-semibold text-sm sm:text-base">
+                    {recurring.title}{' '}
+                    <span className="text-green-400">{formatMoney(recurring.amount, recurring.currency || baseCurrency)}</span>
+                  </p>
+                  <p className="text-gray-400 text-xs sm:text-sm">
+                    {describeSchedule(recurring)} • Paid by {getMemberName(recurring.paidBy)}
+                  </p>
+                  <p className="text-gray-400 text-xs sm:text-sm">
+                    {recurring.paused
+                      ? '⏸ Paused'
+                      : nextDate
+                        ? `Next: ${nextDate.toLocaleDateString()}`
+                        : 'Ended'}
+                    {recurring.endDate && ` • Ends ${recurring.endDate.toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2 text-xs sm:text-sm flex-shrink-0">
+                  <button
+                    onClick={() => runUpdate(
+                      () => setRecurringExpensePaused(groupId, recurring.id, !recurring.paused),
+                      recurring.paused ? '▶️ Recurring expense resumed' : '⏸ Recurring expense paused'
+                    )}
+                    className="text-blue-400 hover:text-blue-300"
+                  >
+                    {recurring.paused ? 'Resume' : 'Pause'}
+                  </button>
+                  <button
+                    onClick={() => runUpdate(
+                      () => skipNextOccurrence(groupId, recurring.id),
+                      '⏭ Next occurrence skipped'
+                    )}
+                    disabled={!nextDate}
+                    className="text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Skip next
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEditingEndDateId(recurring.id);
+                      setEndDateValue(recurring.endDate ? toDateInput(recurring.endDate) : '');
+                    }}
+                    className="text-blue-400 hover:text-blue-300"
+                  >
+                    End date
+                  </button>
+                  <button onClick={() => handleDelete(recurring)} className="text-red-400 hover:text-red-300">
+                    Delete
+                  </button>
+                </div>
+              </div>
+
+              {editingEndDateId === recurring.id && (
+                <div className="flex flex-wrap items-center gap-2 mt-3">
+                  <input
+                    type="date"
+                    value={endDateValue}
+                    onChange={(e) => setEndDateValue(e.target.value)}
+                    className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => handleSaveEndDate(recurring)}
+                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors text-sm"
+                  >
+                    {endDateValue ? 'Save' : 'Remove end date'}
+                  </button>
+                  <button
+                    onClick={() => setEditingEndDateId(null)}
+                    className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import type { Balance, FormerMember, Group, User } from '../types';
+import { removeGroupMember } from '../services/firebaseService';
+import { formatMoney } from '../utils/money';
+
+interface RemoveMemberModalProps {
+  group: Group;
+  memberId: string; // The signed-in user when they're leaving
+  balances: Balance[] | null; // From the whole ledger, as removing checks them; null while it loads
+  baseCurrency: string;
+  user: Pick<User, 'uid' | 'name'>;
+  getMemberName: (memberId: string) => string;
+  onSettle: (balance: Balance) => void;
+  onRemoved: (former: FormerMember) => void;
+  onClose: () => void;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+export const RemoveMemberModal = ({
+  group,
+  memberId,
+  balances,
+  baseCurrency,
+  user,
+  getMemberName,
+  onSettle,
+  onRemoved,
+  onClose,
+  showToast,
+}: RemoveMemberModalProps) => {
+  const [removing, setRemoving] = useState(false);
+  const leaving = memberId === user.uid;
+  const memberName = getMemberName(memberId);
+  // Archived groups have settled or written off everything already
+  const openBalances = group.archived
+    ? []
+    : balances && balances.filter((balance) => balance.from === memberId || balance.to === memberId);
+
+  const handleRemove = async () => {
+    try {
+      setRemoving(true);
+      onRemoved(await removeGroupMember(group.id, memberId, user));
+      showToast(leaving ? `👋 You left ${group.name}` : `👋 ${memberName} was removed from the group`, 'success');
+    } catch (error) {
+      console.error('Error removing member:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to remove the member'}`, 'error');
+      setRemoving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-gray-800 rounded-lg p-4 sm:p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg sm:text-xl font-bold mb-2">
+          {leaving ? `Leave ${group.name}` : `Remove ${memberName}`}
+        </h3>
+
+        {!openBalances ? (
+          <p className="text-gray-400 text-xs sm:text-sm mb-4">Loading balances...</p>
+        ) : openBalances.length > 0 ? (
+          <>
+            <p className="text-gray-400 text-xs sm:text-sm mb-3">
+              {leaving ? 'You have' : `${memberName} has`} balances to settle first. Record a payment for each one,
+              then come back.
+            </p>
+            <ul className="space-y-2 mb-4">
+              {openBalances.map((balance) => (
+                <li
+                  key={`${balance.from}-${balance.to}`}
+                  className="flex justify-between items-center gap-2 p-2 sm:p-3 bg-gray-700 rounded-lg text-xs sm:text-sm text-gray-300"
+                >
+                  <span>
+                    <span className="text-white">{getMemberName(balance.from)}</span> owes{' '}
+                    <span className="text-white">{getMemberName(balance.to)}</span>{' '}
+                    <span className="text-red-400 font-semibold">{formatMoney(balance.amount, baseCurrency)}</span>
+                  </span>
+                  <button
+                    onClick={() => onSettle(balance)}
+                    className="bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded transition-colors whitespace-nowrap"
+                  >
+                    Settle Up
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-gray-400 text-xs sm:text-sm mb-4">
+            {leaving
+              ? "You'll no longer see this group. Your expenses and payments stay in it under your name, and you can rejoin with the join code."
+              : `${memberName}'s expenses and payments stay in the group under their name. They can rejoin with the join code.`}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={removing}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors disabled:opacity-50 text-sm"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={removing || !openBalances || openBalances.length > 0}
+            className="px-4 py-2 bg-red-600 hover:bg-red-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            {removing ? (leaving ? 'Leaving...' : 'Removing...') : leaving ? 'Leave Group' : 'Remove Member'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { useMemo, useState } from 'react';
+import type { Group, User } from '../types';
+import { restoreGroupBackup } from '../services/firebaseService';
+import { getBackupMemberIds, remapGroupBackup } from '../utils/groupBackup';
+import type { GroupBackup } from '../utils/groupBackup';
+
+interface RestoreBackupModalProps {
+  backup: GroupBackup;
+  targetGroup?: Group; // Replays into this group instead of creating a new one
+  user: Pick<User, 'uid' | 'name' | 'email'>;
+  getMemberName?: (memberId: string) => string; // Names the target group's members
+  onClose: () => void;
+  onRestored: (groupId: string) => void;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+export const RestoreBackupModal = ({
+  backup,
+  targetGroup,
+  user,
+  getMemberName,
+  onClose,
+  onRestored,
+  showToast,
+}: RestoreBackupModalProps) => {
+  const memberIds = useMemo(() => getBackupMemberIds(backup), [backup]);
+
+  // Best-known name for each UID in the backup, falling back to the UID itself
+  const backupNames = useMemo(() => {
+    const names = new Map<string, string>();
+    backup.activities.forEach((activity) => names.set(activity.userId, activity.userName));
+    Object.values(backup.group.formerMembers || {}).forEach((member) => names.set(member.uid, member.name));
+    Object.values(backup.group.membersDetail || {}).forEach((member) => names.set(member.uid, member.name));
+    return names;
+  }, [backup]);
+
+  // People in the target group a backup UID can be matched to, former members included
+  const targetIds = useMemo(
+    () => (targetGroup ? [...targetGroup.members, ...Object.keys(targetGroup.formerMembers || {})] : []),
+    [targetGroup]
+  );
+
+  // A new group keeps the UIDs by default, which is right within the same
+  // Firebase project; replaying matches UIDs, then names, to the target's people
+  const [uidMap, setUidMap] = useState<{ [oldUid: string]: string }>(() => {
+    const initial: { [oldUid: string]: string } = {};
+    memberIds.forEach((memberId) => {
+      if (!targetGroup) {
+        initial[memberId] = memberId;
+      } else if (targetIds.includes(memberId)) {
+        initial[memberId] = memberId;
+      } else {
+        const name = backupNames.get(memberId)?.toLowerCase();
+        const match = targetIds.find((targetId) => name && getMemberName?.(targetId).toLowerCase() === name);
+        initial[memberId] = match && !Object.values(initial).includes(match) ? match : '';
+      }
+    });
+    return initial;
+  });
+  const [restoring, setRestoring] = useState(false);
+  const [written, setWritten] = useState(0);
+
+  const entryCount = backup.expenses.length + backup.payments.length + backup.activities.length;
+  const inputClassName =
+    'flex-1 min-w-0 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  const handleRestore = async () => {
+    try {
+      const remapped = remapGroupBackup(backup, uidMap);
+      setRestoring(true);
+      setWritten(0);
+      const groupId = await restoreGroupBackup(remapped, user, targetGroup?.id, setWritten);
+      showToast(`✅ Restored ${backup.expenses.length} expenses and ${backup.payments.length} payments`, 'success');
+      onRestored(groupId);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to restore the backup'}`, 'error');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800 rounded-lg p-4 sm:p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg sm:text-xl font-bold mb-1">
+          {targetGroup ? `Restore into ${targetGroup.name}` : 'Restore Group from Backup'}
+        </h3>
+        <p className="text-gray-400 text-xs sm:text-sm mb-3 sm:mb-4">
+          "{backup.group.name}" backed up {backup.exportedAt.toLocaleString()}: {backup.expenses.length} expenses,{' '}
+          {backup.payments.length} payments and {backup.activities.length} activity entries.
+        </p>
+
+        <p className="text-white text-sm font-semibold mb-1">People</p>
+        <p className="text-gray-400 text-xs sm:text-sm mb-2">
+          {targetGroup
+            ? 'Match everyone in the backup to a member or former member of this group.'
+            : 'Keep the user IDs when restoring into the same Firebase project. When moving to another project, enter each person\'s user ID there.'}
+        </p>
+        <div className="space-y-2 mb-4">
+          {memberIds.map((memberId) => (
+            <div key={memberId} className="flex items-center gap-2 text-sm">
+              <span className="text-gray-300 w-28 sm:w-36 truncate" title={memberId}>
+                {backupNames.get(memberId) || memberId}
+              </span>
+              <span className="text-gray-500">→</span>
+              {targetGroup ? (
+                <select
+                  value={uidMap[memberId] || ''}
+                  onChange={(e) => setUidMap({ ...uidMap, [memberId]: e.target.value })}
+                  className={inputClassName}
+                  disabled={restoring}
+                >
+                  <option value="">Choose a member</option>
+                  {targetIds.map((targetId) => (
+                    <option
+                      key={targetId}
+                      value={targetId}
+                      disabled={Object.entries(uidMap).some(([oldUid, newUid]) => newUid === targetId && oldUid !== memberId)}
+                    >
+                      {getMemberName ? getMemberName(targetId) : targetId}
+                      {!targetGroup.members.includes(targetId) && ' (former member)'}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    value={uidMap[memberId] || ''}
+                    onChange={(e) => setUidMap({ ...uidMap, [memberId]: e.target.value.trim() })}
+                    placeholder="User ID"
+                    className={inputClassName}
+                    disabled={restoring}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setUidMap({ ...uidMap, [memberId]: user.uid })}
+                    disabled={restoring || uidMap[memberId] === user.uid}
+                    className="px-2 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors disabled:opacity-50 text-xs whitespace-nowrap"
+                  >
+                    Me
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={restoring}
+            className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50 text-sm sm:text-base"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleRestore}
+            disabled={restoring}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm sm:text-base"
+          >
+            {restoring ? `Restoring ${written} of ${entryCount}...` : 'Restore'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import type { Balance } from '../types';
+import { planSettlements } from '../utils/settlementPlanner';
+import { formatMoney } from '../utils/money';
+
+interface SettlementPlannerPanelProps {
+  balances: Balance[];
+  members: string[];
+  baseCurrency: string;
+  getMemberName: (memberId: string) => string;
+}
+
+export const SettlementPlannerPanel = ({ balances, members, baseCurrency, getMemberName }: SettlementPlannerPanelProps) => {
+  const [showOptions, setShowOptions] = useState(false);
+  const [hub, setHub] = useState('');
+  const [forbiddenPairs, setForbiddenPairs] = useState<Array<[string, string]>>([]);
+  const [pairFrom, setPairFrom] = useState('');
+  const [pairTo, setPairTo] = useState('');
+  const [maxTransfers, setMaxTransfers] = useState('');
+
+  const plan = useMemo(() => {
+    const limit = parseInt(maxTransfers, 10);
+    return planSettlements(
+      balances,
+      {
+        hub: hub || undefined,
+        forbiddenPairs,
+        maxTransfers: limit >= 0 ? limit : undefined,
+      },
+      baseCurrency
+    );
+  }, [balances, hub, forbiddenPairs, maxTransfers, baseCurrency]);
+
+  const constraintCount = (hub ? 1 : 0) + forbiddenPairs.length + (maxTransfers ? 1 : 0);
+
+  const addForbiddenPair = () => {
+    if (!pairFrom || !pairTo || pairFrom === pairTo) return;
+    const exists = forbiddenPairs.some(
+      ([a, b]) => (a === pairFrom && b === pairTo) || (a === pairTo && b === pairFrom)
+    );
+    if (!exists) {
+      setForbiddenPairs([...forbiddenPairs, [pairFrom, pairTo]]);
+    }
+    setPairFrom('');
+    setPairTo('');
+  };
+
+  const selectClassName =
+    'bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="bg-blue-900 bg-opacity-30 rounded-lg p-4 sm:p-6 border border-blue-700">
+      <div className="flex justify-between items-center mb-3 sm:mb-4">
+        <h3 className="text-lg sm:text-xl font-semibold">💡 Optimized Settlements</h3>
+        <button
+          onClick={() => setShowOptions(!showOptions)}
+          className="text-xs sm:text-sm text-blue-300 hover:text-blue-200 transition-colors"
+        >
+          {showOptions ? 'Hide options' : `Options${constraintCount > 0 ? ` (${constraintCount})` : ''}`}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="bg-gray-800 rounded-lg p-3 sm:p-4 border border-gray-700 mb-3 sm:mb-4 space-y-4">
+          <label className="block text-gray-300 text-sm">
+            Route everything through
+            <select
+              value={hub}
+              onChange={(e) => setHub(e.target.value)}
+              className={`${selectClassName} mt-1 w-full sm:w-auto sm:ml-2`}
+            >
+              <option value="">No hub</option>
+              {members.map((memberId) => (
+                <option key={memberId} value={memberId}>{getMemberName(memberId)}</option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <p className="text-gray-300 text-sm mb-1">Don't let these members pay each other directly</p>
+            {forbiddenPairs.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {forbiddenPairs.map(([a, b], idx) => (
+                  <span key={`${a}-${b}`} className="flex items-center gap-1 bg-gray-700 rounded-full px-3 py-1 text-xs text-gray-200">
+                    {getMemberName(a)} ↔ {getMemberName(b)}
+                    <button
+                      onClick={() => setForbiddenPairs(forbiddenPairs.filter((_, i) => i !== idx))}
+                      className="text-gray-400 hover:text-red-400 ml-1"
+                      aria-label="Remove pair"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={pairFrom} onChange={(e) => setPairFrom(e.target.value)} className={selectClassName}>
+                <option value="">Member</option>
+                {members.map((memberId) => (
+                  <option key={memberId} value={memberId}>{getMemberName(memberId)}</option>
+                ))}
+              </select>
+              <span className="text-gray-400">↔</span>
+              <select value={pairTo} onChange={(e) => setPairTo(e.target.value)} className={selectClassName}>
+                <option value="">Member</option>
+                {members.filter((memberId) => memberId !== pairFrom).map((memberId) => (
+                  <option key={memberId} value={memberId}>{getMemberName(memberId)}</option>
+                ))}
+              </select>
+              <button
+                onClick={addForbiddenPair}
+                disabled={!pairFrom || !pairTo}
+                className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded-lg transition-colors disabled:opacity-50 text-sm"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <label className="block text-gray-300 text-sm">
+            At most
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={maxTransfers}
+              onChange={(e) => setMaxTransfers(e.target.value)}
+              placeholder="Any"
+              className="mx-2 w-20 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            transfers
+          </label>
+        </div>
+      )}
+
+      {!plan.feasible && plan.reason && (
+        <div className="bg-yellow-900 bg-opacity-30 border border-yellow-700 rounded-lg p-3 mb-3 sm:mb-4">
+          <p className="text-yellow-300 text-xs sm:text-sm">⚠️ {plan.reason}</p>
+        </div>
+      )}
+
+      {balances.length === 0 ? (
+        <p className="text-gray-400 text-center py-2">Everyone is all settled up! 🎉</p>
+      ) : plan.settlements.length > 0 && (
+        <>
+          <p className="text-gray-300 mb-3 sm:mb-4 text-xs sm:text-sm">
+            {hub
+              ? `Everyone settles with ${getMemberName(hub)}:`
+              : 'These transactions minimize the total number of payments needed:'}
+          </p>
+          <div className="space-y-2 sm:space-y-3">
+            {plan.settlements.map((settlement, idx) => (
+              <div key={idx} className="bg-gray-800 rounded-lg p-3 sm:p-4 border border-blue-600">
+                <p className="text-white text-sm sm:text-base">
+                  <span className="font-bold">{getMemberName(settlement.from)}</span> should pay{' '}
+                  <span className="font-bold">{getMemberName(settlement.to)}</span>
+                </p>
+                <p className="text-xl sm:text-2xl font-bold text-green-400 mt-2">
+                  {formatMoney(settlement.amount, baseCurrency)}
+                </p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
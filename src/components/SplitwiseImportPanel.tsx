@@ -0,0 +1,273 @@
+import { useMemo, useState } from 'react';
+import type { ExchangeRate } from '../types';
+import { getLedgerEntryIds, importLedgerEntries } from '../services/firebaseService';
+import {
+  parseSplitwiseCsv,
+  guessMemberMapping,
+  buildImportPlan,
+  reconcileImport,
+} from '../utils/splitwiseImport';
+import type { SplitwiseExport } from '../utils/splitwiseImport';
+import type { Category } from '../utils/categories';
+import { formatMoney, fromMinorUnits } from '../utils/money';
+
+interface SplitwiseImportPanelProps {
+  groupId: string;
+  members: string[];
+  baseCurrency: string;
+  exchangeRates: ExchangeRate[];
+  categories: Category[];
+  isAdmin: boolean;
+  userId: string;
+  userName: string;
+  getMemberName: (memberId: string) => string;
+  showToast: (message: string, type?: 'success' | 'info' | 'warning' | 'error') => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+export const SplitwiseImportPanel = ({
+  groupId,
+  members,
+  baseCurrency,
+  exchangeRates,
+  categories,
+  isAdmin,
+  userId,
+  userName,
+  getMemberName,
+  showToast,
+}: SplitwiseImportPanelProps) => {
+  const [file, setFile] = useState<SplitwiseExport | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<string[]>([]);
+  const [existingIds, setExistingIds] = useState<Set<string>>(new Set()); // Every entry already in the group
+  const [importing, setImporting] = useState(false);
+  const [written, setWritten] = useState(0);
+
+  const plan = useMemo(() => {
+    if (!file) return null;
+    return buildImportPlan(file, mapping, { groupId, userId, baseCurrency, exchangeRates, categories });
+  }, [file, mapping, groupId, userId, baseCurrency, exchangeRates, categories]);
+
+  const reconciliation = useMemo(() => (file && plan ? reconcileImport(file, mapping, plan) : []), [file, mapping, plan]);
+  const reconciled = reconciliation.every((line) => line.expected === line.imported);
+
+  // Rows imported before keep their ids, so they can be left out of another import
+  const pending = useMemo(() => {
+    if (!plan) return { expenses: [], payments: [] };
+    return {
+      expenses: plan.expenses.filter((expense) => !existingIds.has(expense.id)),
+      payments: plan.payments.filter((payment) => !existingIds.has(payment.id)),
+    };
+  }, [plan, existingIds]);
+
+  if (!isAdmin) return null;
+
+  const alreadyImported = plan
+    ? plan.expenses.length + plan.payments.length - pending.expenses.length - pending.payments.length
+    : 0;
+  const pendingCount = pending.expenses.length + pending.payments.length;
+
+  const reset = () => {
+    setFile(null);
+    setFileName('');
+    setMapping([]);
+    setExistingIds(new Set());
+    setWritten(0);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+
+    try {
+      const parsed = parseSplitwiseCsv(await selected.text());
+      setExistingIds(await getLedgerEntryIds(groupId));
+      setFile(parsed);
+      setFileName(selected.name);
+      setMapping(guessMemberMapping(parsed.people, members.map((uid) => ({ uid, name: getMemberName(uid) }))));
+    } catch (error) {
+      console.error('Error reading Splitwise export:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Failed to read the file'}`, 'error');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan || pendingCount === 0) return;
+    const confirmMessage = reconciled
+      ? `Import ${pending.expenses.length} expenses and ${pending.payments.length} payments?`
+      : 'The imported balances will not match the totals in the file. Import anyway?';
+    if (!window.confirm(confirmMessage)) return;
+
+    try {
+      setImporting(true);
+      setWritten(0);
+      await importLedgerEntries(groupId, pending, 'Splitwise', userId, userName, setWritten);
+      showToast(`✅ Imported ${pending.expenses.length} expenses and ${pending.payments.length} payments`, 'success');
+      reset();
+    } catch (error) {
+      console.error('Error importing from Splitwise:', error);
+      showToast(`❌ ${error instanceof Error ? error.message : 'Import failed'}. Importing again skips what was already saved.`, 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const selectClassName =
+    'bg-gray-800 border border-gray-600 rounded-lg px-2 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const previewEntries = plan
+    ? [
+        ...pending.expenses.map((expense) => ({
+          id: expense.id,
+          date: expense.date,
+          title: expense.title,
+          amount: formatMoney(expense.amount, expense.currency),
+          detail: `Paid by ${getMemberName(expense.paidBy)}${expense.payers ? ' and others' : ''}`,
+        })),
+        ...pending.payments.map((payment) => ({
+          id: payment.id,
+          date: payment.date,
+          title: 'Payment',
+          amount: formatMoney(payment.amount, payment.currency),
+          detail: `${getMemberName(payment.from)} paid ${getMemberName(payment.to)}`,
+        })),
+      ].sort((a, b) => a.date.getTime() - b.date.getTime())
+    : [];
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 sm:p-6 border border-gray-700">
+      <div className="flex justify-between items-center mb-1">
+        <h4 className="text-base sm:text-lg font-semibold text-white">Import from Splitwise</h4>
+        {file && !importing && (
+          <button onClick={reset} className="text-gray-400 hover:text-gray-300 text-xs sm:text-sm">
+            Cancel
+          </button>
+        )}
+      </div>
+      <p className="text-gray-400 text-xs sm:text-sm mb-3">
+        Export the group from Splitwise as CSV, match each person to a member, then check the preview before
+        importing.
+      </p>
+
+      {!file ? (
+        <label className="inline-block bg-blue-600 hover:bg-blue-700 px-3 py-1.5 rounded-lg transition-colors text-xs sm:text-sm cursor-pointer">
+          Choose CSV File
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+        </label>
+      ) : (
+        <div className="space-y-4">
+          <div className="bg-gray-700 rounded-lg p-3 sm:p-4">
+            <p className="text-white text-sm font-semibold mb-2">
+              People in {fileName}
+            </p>
+            <div className="space-y-2">
+              {file.people.map((person, column) => (
+                <div key={column} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-300 w-32 truncate">{person}</span>
+                  <span className="text-gray-500">→</span>
+                  <select
+                    value={mapping[column] || ''}
+                    onChange={(e) => setMapping(mapping.map((uid, i) => (i === column ? e.target.value : uid)))}
+                    className={selectClassName}
+                    disabled={importing}
+                  >
+                    <option value="">Don't import</option>
+                    {members.map((memberId) => (
+                      <option
+                        key={memberId}
+                        value={memberId}
+                        disabled={mapping.some((uid, i) => uid === memberId && i !== column)}
+                      >
+                        {getMemberName(memberId)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {plan && (
+            <>
+              <p className="text-gray-300 text-sm">
+                {pending.expenses.length} expenses and {pending.payments.length} payments ready to import
+                {alreadyImported > 0 && `, ${alreadyImported} already imported`}
+                {plan.problems.length > 0 && `, ${plan.problems.length} rows skipped`}.
+              </p>
+
+              {plan.problems.length > 0 && (
+                <div className="bg-gray-700 rounded-lg p-3 max-h-40 overflow-y-auto">
+                  <p className="text-yellow-400 text-sm font-semibold mb-1">Skipped rows</p>
+                  {plan.problems.map((problem) => (
+                    <p key={problem.rowNumber} className="text-gray-300 text-xs sm:text-sm">
+                      Row {problem.rowNumber} ({problem.description || 'no description'}): {problem.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="bg-gray-700 rounded-lg p-3 overflow-x-auto">
+                <p className={`text-sm font-semibold mb-2 ${reconciled ? 'text-green-400' : 'text-red-400'}`}>
+                  {reconciled ? '✓ Balances match the file' : '✗ Balances do not match the file'}
+                </p>
+                <table className="w-full text-xs sm:text-sm">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="font-normal pr-2">Person</th>
+                      <th className="font-normal pr-2 text-right">In file</th>
+                      <th className="font-normal pr-2 text-right">Imported</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reconciliation.map((line) => (
+                      <tr key={`${line.currency}-${line.person}`} className="text-gray-300">
+                        <td className="pr-2 truncate">{line.person}</td>
+                        <td className="pr-2 text-right">{formatMoney(fromMinorUnits(line.expected, line.currency), line.currency)}</td>
+                        <td className="pr-2 text-right">{formatMoney(fromMinorUnits(line.imported, line.currency), line.currency)}</td>
+                        <td className={line.expected === line.imported ? 'text-green-400' : 'text-red-400'}>
+                          {line.expected === line.imported ? '✓' : '✗'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {previewEntries.length > 0 && (
+                <div className="bg-gray-700 rounded-lg p-3 max-h-64 overflow-y-auto space-y-1">
+                  {previewEntries.slice(0, PREVIEW_LIMIT).map((entry) => (
+                    <div key={entry.id} className="flex justify-between gap-2 text-xs sm:text-sm">
+                      <div className="min-w-0">
+                        <p className="text-white truncate">{entry.title}</p>
+                        <p className="text-gray-400">
+                          {entry.date.toLocaleDateString()} • {entry.detail}
+                        </p>
+                      </div>
+                      <span className="text-gray-200 flex-shrink-0">{entry.amount}</span>
+                    </div>
+                  ))}
+                  {previewEntries.length > PREVIEW_LIMIT && (
+                    <p className="text-gray-400 text-xs sm:text-sm">and {previewEntries.length - PREVIEW_LIMIT} more</p>
+                  )}
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleImport}
+                  disabled={importing || pendingCount === 0}
+                  className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 text-sm"
+                >
+                  {importing ? `Importing ${written} of ${pendingCount}...` : `Import ${pendingCount} Entries`}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import type { BalanceCheckpoint, ExchangeRate, Expense, Group, Payment } from '../types';
+import { getFullGroupData, getUser, subscribeToBalanceCheckpoints, subscribeToExchangeRates } from '../services/firebaseService';
+import { useAuth } from '../contexts/AuthContext';
+import { applyExchangeRates } from '../utils/exchangeRates';
+import { buildMemberStatement, isMonthKey } from '../utils/statement';
+import { getMonthKey } from '../utils/categories';
+import { getLatestCheckpoint } from '../utils/periods';
+import { formatMoney, DEFAULT_CURRENCY } from '../utils/money';
+
+// Positive balances mean the member is owed money
+const describeBalance = (amount: number, currency: string) => {
+  if (amount > 0) return `${formatMoney(amount, currency)} owed to them`;
+  if (amount < 0) return `${formatMoney(-amount, currency)} owing`;
+  return 'Settled up';
+};
+
+const formatChange = (amount: number, currency: string) => {
+  if (amount === 0) return formatMoney(0, currency);
+  return `${amount > 0 ? '+' : '−'}${formatMoney(Math.abs(amount), currency)}`;
+};
+
+export const StatementPage = () => {
+  const { groupId } = useParams<{ groupId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const [ledger, setLedger] = useState<{ group: Group; expenses: Expense[]; payments: Payment[] } | null>(null);
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [checkpoints, setCheckpoints] = useState<BalanceCheckpoint[]>([]);
+  const [userNames, setUserNames] = useState<Map<string, string>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!groupId || !user) return;
+
+    let cancelled = false;
+    getFullGroupData(groupId)
+      .then(({ group, expenses, payments }) => {
+        if (cancelled) return;
+        if (!group.members.includes(user.uid)) {
+          setError('You are not a member of this group');
+        } else {
+          setLedger({ group, expenses, payments });
+          // Older groups have no member details, so look those names up
+          const missing = group.members.filter((uid) => !group.membersDetail?.[uid]);
+          Promise.all(missing.map((uid) => getUser(uid)))
+            .then((users) => {
+              const names = new Map<string, string>();
+              users.forEach((member) => {
+                if (member) names.set(member.uid, member.name);
+              });
+              if (!cancelled) setUserNames(names);
+            })
+            .catch((namesError) => console.error('Error loading member names:', namesError));
+        }
+      })
+      .catch((loadError) => {
+        console.error('Error loading statement:', loadError);
+        if (!cancelled) setError('Failed to load the group. Please try again.');
+      });
+
+    const unsubscribeExchangeRates = subscribeToExchangeRates(groupId, setExchangeRates);
+    const unsubscribeCheckpoints = subscribeToBalanceCheckpoints(groupId, setCheckpoints);
+    return () => {
+      cancelled = true;
+      unsubscribeExchangeRates();
+      unsubscribeCheckpoints();
+    };
+  }, [groupId, user]);
+
+  const month = isMonthKey(searchParams.get('month') || '') ? searchParams.get('month') || '' : getMonthKey(new Date());
+  const requestedMember = searchParams.get('member') || user?.uid || '';
+  const memberId = ledger && !ledger.group.members.includes(requestedMember) && user ? user.uid : requestedMember;
+  const baseCurrency = ledger?.group.baseCurrency || DEFAULT_CURRENCY;
+
+  const statement = useMemo(() => {
+    if (!ledger) return null;
+    return buildMemberStatement(
+      applyExchangeRates(ledger.expenses, exchangeRates, baseCurrency),
+      applyExchangeRates(ledger.payments, exchangeRates, baseCurrency),
+      memberId,
+      month,
+      { baseCurrency, checkpoint: getLatestCheckpoint(checkpoints) }
+    );
+  }, [ledger, exchangeRates, checkpoints, baseCurrency, memberId, month]);
+
+  const getMemberName = (uid: string) =>
+    ledger?.group.membersDetail?.[uid]?.name || userNames.get(uid) || ledger?.group.formerMembers?.[uid]?.name || 'Unknown';
+
+  const updateParams = (changes: { member?: string; month?: string }) => {
+    setSearchParams((current) => {
+      const next = new URLSearchParams(current);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) next.set(key, value);
+      });
+      return next;
+    }, { replace: true });
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-400 mb-4">{error}</p>
+        <Link to="/groups" className="text-blue-400 hover:text-blue-300">Back to groups</Link>
+      </div>
+    );
+  }
+
+  if (!ledger || !statement) {
+    return <div className="text-center py-12 text-gray-400">Loading statement...</div>;
+  }
+
+  const monthLabel = statement.periodStart.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const cellClassName = 'py-1.5 px-2 align-top';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4 print:hidden">
+        <Link to={`/groups/${ledger.group.id}`} className="text-blue-400 hover:text-blue-300 text-sm mr-auto">
+          ← Back to {ledger.group.name}
+        </Link>
+        <select
+          value={memberId}
+          onChange={(e) => updateParams({ member: e.target.value })}
+          className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Member"
+        >
+          {ledger.group.members.map((uid) => (
+            <option key={uid} value={uid}>{getMemberName(uid)}</option>
+          ))}
+        </select>
+        <input
+          type="month"
+          value={month}
+          onChange={(e) => updateParams({ month: e.target.value })}
+          className="bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Month"
+        />
+        <button
+          onClick={() => window.print()}
+          className="bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg transition-colors text-sm"
+        >
+          🖨️ Print
+        </button>
+      </div>
+
+      <div className="bg-white text-gray-900 rounded-lg p-4 sm:p-8 max-w-4xl mx-auto print:p-0 print:rounded-none print:max-w-none">
+        <div className="flex flex-wrap justify-between items-start gap-2 border-b border-gray-300 pb-3 mb-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold">{getMemberName(memberId)}</h2>
+            <p className="text-gray-600 text-sm">{ledger.group.name} • Statement for {monthLabel}</p>
+          </div>
+          <p className="text-gray-500 text-xs sm:text-sm">All amounts in {baseCurrency}</p>
+        </div>
+
+        <div className="flex justify-between text-sm sm:text-base mb-4">
+          <span className="font-semibold">Opening balance</span>
+          <span>{describeBalance(statement.openingBalance, baseCurrency)}</span>
+        </div>
+
+        {statement.lines.length === 0 ? (
+          <p className="text-gray-500 text-sm py-4">No expenses or payments this month.</p>
+        ) : (
+          <table className="w-full text-xs sm:text-sm border-collapse mb-4">
+            <thead>
+              <tr className="border-b border-gray-300 text-left text-gray-600">
+                <th className={`${cellClassName} font-semibold`}>Date</th>
+                <th className={`${cellClassName} font-semibold`}>Description</th>
+                <th className={`${cellClassName} font-semibold text-right`}>Share</th>
+                <th className={`${cellClassName} font-semibold text-right`}>Paid</th>
+                <th className={`${cellClassName} font-semibold text-right`}>Balance change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {statement.lines.map((line) => (
+                <tr
+                  key={line.type === 'expense' ? line.expense.id : line.payment.id}
+                  className="border-b border-gray-200 break-inside-avoid"
+                >
+                  <td className={`${cellClassName} whitespace-nowrap`}>{line.date.toLocaleDateString()}</td>
+                  {line.type === 'expense' ? (
+                    <>
+                      <td className={cellClassName}>
+                        {line.expense.title}
+                        {line.expense.currency && line.expense.currency !== baseCurrency && (
+                          <span className="text-gray-500"> ({formatMoney(line.expense.amount, line.expense.currency)})</span>
+                        )}
+                      </td>
+                      <td className={`${cellClassName} text-right`}>{line.share ? formatMoney(line.share, baseCurrency) : '—'}</td>
+                      <td className={`${cellClassName} text-right`}>{line.paid ? formatMoney(line.paid, baseCurrency) : '—'}</td>
+                    </>
+                  ) : (
+                    <td className={cellClassName} colSpan={3}>
+                      {line.payment.from === memberId
+                        ? `Payment to ${getMemberName(line.payment.to)}`
+                        : `Payment from ${getMemberName(line.payment.from)}`}
+                      {line.payment.note && <span className="text-gray-500"> – {line.payment.note}</span>}
+                    </td>
+                  )}
+                  <td className={`${cellClassName} text-right whitespace-nowrap`}>{formatChange(line.change, baseCurrency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-xs sm:text-sm text-gray-600 mb-4 break-inside-avoid">
+          <div>
+            <p>Share of expenses</p>
+            <p className="text-gray-900 font-semibold">{formatMoney(statement.totalShare, baseCurrency)}</p>
+          </div>
+          <div>
+            <p>Paid for expenses</p>
+            <p className="text-gray-900 font-semibold">{formatMoney(statement.totalPaid, baseCurrency)}</p>
+          </div>
+          <div>
+            <p>Payments made</p>
+            <p className="text-gray-900 font-semibold">{formatMoney(statement.paymentsMade, baseCurrency)}</p>
+          </div>
+          <div>
+            <p>Payments received</p>
+            <p className="text-gray-900 font-semibold">{formatMoney(statement.paymentsReceived, baseCurrency)}</p>
+          </div>
+        </div>
+
+        <div className="flex justify-between border-t border-gray-300 pt-3 text-sm sm:text-base font-bold">
+          <span>Closing balance</span>
+          <span>{describeBalance(statement.closingBalance, baseCurrency)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
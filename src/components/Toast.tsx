@@ -2,7 +2,7 @@ import { useEffect } from 'react';
 
 interface ToastProps {
   message: string;
-  type?: 'success' | 'info' | 'error';
+  type?: 'success' | 'info' | 'warning' | 'error';
   duration?: number;
   onClose: () => void;
 }
@@ -21,6 +21,8 @@ export const Toast = ({ message, type = 'success', duration = 3000, onClose }: T
       ? 'bg-green-600'
       : type === 'error'
       ? 'bg-red-600'
+      : type === 'warning'
+      ? 'bg-yellow-600'
       : 'bg-blue-600';
 
   return (
@@ -29,7 +31,7 @@ export const Toast = ({ message, type = 'success', duration = 3000, onClose }: T
         className={`${bgColor} text-white px-6 py-3 rounded-lg shadow-lg flex items-center gap-3 min-w-[300px] max-w-md`}
       >
         <span className="text-xl">
-          {type === 'success' ? '✅' : type === 'error' ? '❌' : 'ℹ️'}
+          {type === 'success' ? '✅' : type === 'error' ? '❌' : type === 'warning' ? '⚠️' : 'ℹ️'}
         </span>
         <span className="flex-1">{message}</span>
         <button
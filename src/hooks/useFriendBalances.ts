@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import { subscribeToFriendBalances } from '../services/firebaseService';
+import type { FriendBalanceSummary } from '../utils/friendBalances';
+
+export const useFriendBalances = (userId: string | undefined) => {
+  const [summary, setSummary] = useState<FriendBalanceSummary>({ friends: [], groups: {} });
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const unsubscribe = subscribeToFriendBalances(userId, (updatedSummary) => {
+      setSummary(updatedSummary);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return { ...summary, loading };
+};
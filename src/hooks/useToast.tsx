@@ -3,7 +3,7 @@ import { Toast } from '../components/Toast';
 
 interface ToastState {
   message: string;
-  type?: 'success' | 'info' | 'error';
+  type?: 'success' | 'info' | 'warning' | 'error';
   show: boolean;
 }
 
@@ -15,7 +15,7 @@ export const useToast = () => {
   });
 
   const showToast = useCallback(
-    (message: string, type: 'success' | 'info' | 'error' = 'success') => {
+    (message: string, type: 'success' | 'info' | 'warning' | 'error' = 'success') => {
       setToast({ message, type, show: true });
     },
     []
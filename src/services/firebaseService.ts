@@ -13,10 +13,30 @@ import {
   onSnapshot,
   Timestamp,
   limit,
+  deleteField,
+  runTransaction,
+  collectionGroup,
+  writeBatch,
+  arrayUnion,
+  arrayRemove,
+  increment,
 } from 'firebase/firestore';
-import { db, auth } from '../config/firebase';
+import type { DocumentData } from 'firebase/firestore';
+import { ref as storageRef, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { db, auth, storage } from '../config/firebase';
 import { generateJoinCode } from '../utils/joinCodeGenerator';
-import type { User, Group, Expense, Activity, GroupMember, Payment } from '../types';
+import { validateSplit, validatePayers, usesSplitValues } from '../utils/splitCalculator';
+import { formatMoney, DEFAULT_CURRENCY } from '../utils/money';
+import { calculateBalances, minimizeTransactions } from '../utils/balanceCalculator';
+import { applyExchangeRates } from '../utils/exchangeRates';
+import { getLatestCheckpoint, getPeriodEndDate, getPeriodEntries, getPeriodLastDay, isInClosedPeriod } from '../utils/periods';
+import { summarizeFriendBalances } from '../utils/friendBalances';
+import { getDueOccurrences, getFirstOccurrenceOnOrAfter, getOccurrenceDate, getOccurrenceKey } from '../utils/recurrence';
+import { downscaleImage, RECEIPT_MAX_DIMENSION, THUMBNAIL_MAX_DIMENSION } from '../utils/images';
+import { getBackupMemberIds } from '../utils/groupBackup';
+import type { GroupLedger, FriendBalanceSummary } from '../utils/friendBalances';
+import type { GroupBackup } from '../utils/groupBackup';
+import type { User, Group, GroupArchive, FormerMember, BalanceCheckpoint, Expense, Activity, GroupMember, Payment, ExchangeRate, RecurringExpense, Budget, Comment, Receipt } from '../types';
 
 // Timeout wrapper for Firestore operations to prevent infinite hangs
 const withTimeout = <T>(promise: Promise<T>, timeoutMs: number = 10000): Promise<T> => {
@@ -30,6 +50,31 @@ const withTimeout = <T>(promise: Promise<T>, timeoutMs: number = 10000): Promise
   ]);
 };
 
+// Expenses and payments recorded before `date` existed fall back to when they were entered
+const toLedgerDates = (data: DocumentData) => {
+  const createdAt: Date = data.createdAt?.toDate() || new Date();
+  return { date: data.date?.toDate() || createdAt, createdAt };
+};
+
+// The archive record and the open period's start carry timestamps of their own
+const toGroupDates = (data: DocumentData) => ({
+  createdAt: data.createdAt?.toDate() || new Date(),
+  ...(data.archived && { archived: { ...data.archived, archivedAt: data.archived.archivedAt?.toDate() || new Date() } }),
+  ...(data.currentPeriodStart && { currentPeriodStart: data.currentPeriodStart.toDate() }),
+  ...(data.formerMembers && {
+    formerMembers: Object.fromEntries(
+      Object.entries(data.formerMembers as DocumentData).map(([memberId, member]) => [
+        memberId,
+        { ...member, leftAt: member.leftAt?.toDate() || new Date() },
+      ])
+    ),
+  }),
+});
+
+// Newest first by date, then by when the entry was recorded
+const byDateDesc = (a: { date: Date; createdAt: Date }, b: { date: Date; createdAt: Date }) =>
+  b.date.getTime() - a.date.getTime() || b.createdAt.getTime() - a.createdAt.getTime();
+
 // User operations
 export const createUser = async (uid: string, userData: Omit<User, 'uid' | 'createdAt'>): Promise<void> => {
   const userRef = doc(db, 'users', uid);
@@ -123,6 +168,7 @@ export const createGroup = async (
   let groupDoc: any = {
     ...groupData,
     joinCode,
+    datesBackfilled: true,
     createdAt: Timestamp.now(),
   };
   
@@ -192,7 +238,7 @@ export const getGroupsByUser = async (userId: string): Promise<Group[]> => {
   return querySnapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-    createdAt: doc.data().createdAt?.toDate() || new Date(),
+    ...toGroupDates(doc.data()),
   })) as Group[];
 };
 
@@ -211,7 +257,7 @@ export const getGroupByJoinCode = async (joinCode: string): Promise<Group | null
     return {
       id: doc.id,
       ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate() || new Date(),
+      ...toGroupDates(doc.data()),
     } as Group;
   } catch (error: any) {
     console.error('Error getting group by join code:', error);
@@ -230,7 +276,7 @@ export const getGroup = async (groupId: string): Promise<Group | null> => {
     return {
       id: groupSnap.id,
       ...data,
-      createdAt: data.createdAt?.toDate() || new Date(),
+      ...toGroupDates(data),
     } as Group;
   }
   return null;
@@ -248,13 +294,63 @@ export const subscribeToGroups = (userId: string, callback: (groups: Group[]) =>
     const groups = snapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate() || new Date(),
+      ...toGroupDates(doc.data()),
     })) as Group[];
     callback(groups);
   });
 };
 
+// Archived groups keep their expenses and payments exactly as they were when
+// closed, and so do closed settle-up periods. `dates` are those of the entries
+// being written, before and after the change.
+const getLedgerError = (group: Group | null, dates: Date[] = []): string | null => {
+  if (group?.archived) {
+    return 'This group is archived, so its expenses and payments can no longer be changed';
+  }
+  if (group?.currentPeriodStart && dates.some((date) => isInClosedPeriod(date, group.currentPeriodStart))) {
+    return `Expenses and payments dated before ${group.currentPeriodStart.toLocaleDateString()} are in a closed period and can no longer be changed`;
+  }
+  return null;
+};
+
+// Returns the group, for checks that need its settings
+const assertLedgerOpen = async (groupId: string, dates: Date[] = []): Promise<Group | null> => {
+  const group = await getGroup(groupId);
+  const ledgerError = getLedgerError(group, dates);
+  if (ledgerError) {
+    throw new Error(ledgerError);
+  }
+  return group;
+};
+
+// Entries store base currency units per unit of their own currency; a zero or
+// negative rate would wipe out or flip them in the balances
+const assertValidExchangeRate = (exchangeRate?: number): void => {
+  if (exchangeRate !== undefined && !(exchangeRate > 0)) {
+    throw new Error('Exchange rate must be greater than 0');
+  }
+};
+
 // Expense operations
+
+// Only store the split fields that apply to the chosen split type
+const removeUnusedSplitFields = <T extends Partial<Pick<Expense, 'splitType' | 'splits' | 'items' | 'tax' | 'tip' | 'payers'>>>(
+  expenseDoc: T
+): T => {
+  if (!usesSplitValues(expenseDoc.splitType || 'equal')) {
+    delete expenseDoc.splits;
+  }
+  if (expenseDoc.splitType !== 'itemized') {
+    delete expenseDoc.items;
+    delete expenseDoc.tax;
+    delete expenseDoc.tip;
+  }
+  if (!expenseDoc.payers || Object.keys(expenseDoc.payers).length < 2) {
+    delete expenseDoc.payers;
+  }
+  return expenseDoc;
+};
+
 export const createExpense = async (
   expenseData: Omit<Expense, 'id' | 'createdAt'>,
   userName?: string
@@ -274,6 +370,15 @@ export const createExpense = async (
     throw new Error('Expense creator ID must match the signed-in user');
   }
   
+  const group = await assertLedgerOpen(expenseData.groupId, [expenseData.date]);
+  
+  const splitError = validateSplit(expenseData, group?.baseCurrency) || validatePayers(expenseData, group?.baseCurrency);
+  if (splitError) {
+    throw new Error(splitError);
+  }
+  
+  assertValidExchangeRate(expenseData.exchangeRate);
+  
   console.log('[createExpense] Starting expense creation:', {
     groupId: expenseData.groupId,
     createdBy: expenseData.createdBy,
@@ -284,10 +389,17 @@ export const createExpense = async (
   
   const expensesRef = collection(db, 'expenses');
   
-  const expenseDoc = {
+  const expenseDoc = removeUnusedSplitFields({
     ...expenseData,
+    currency: expenseData.currency || group?.baseCurrency || DEFAULT_CURRENCY,
+    exchangeRate: expenseData.exchangeRate || 1,
+    splitType: expenseData.splitType || 'equal',
+    date: Timestamp.fromDate(expenseData.date),
     createdAt: Timestamp.now(),
-  };
+  });
+  if (!expenseDoc.notes?.trim()) {
+    delete expenseDoc.notes;
+  }
   
   console.log('[createExpense] Document to create:', {
     groupId: expenseDoc.groupId,
@@ -321,7 +433,7 @@ export const createExpense = async (
       await createActivity({
         groupId: expenseData.groupId,
         type: 'expense_added',
-        message: `added expense "${expenseData.title}" for $${expenseData.amount.toFixed(2)}`,
+        message: `added expense "${expenseData.title}" for ${formatMoney(expenseData.amount, expenseDoc.currency)}`,
         userId: expenseData.createdBy,
         userName: finalUserName,
       });
@@ -362,6 +474,7 @@ export const getExpensesByGroup = async (groupId: string): Promise<Expense[]> =>
   const q = query(
     expensesRef,
     where('groupId', '==', groupId),
+    orderBy('date', 'desc'),
     orderBy('createdAt', 'desc'),
     limit(50)
   );
@@ -369,7 +482,7 @@ export const getExpensesByGroup = async (groupId: string): Promise<Expense[]> =>
   return querySnapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-    createdAt: doc.data().createdAt?.toDate() || new Date(),
+    ...toLedgerDates(doc.data()),
   })) as Expense[];
 };
 
@@ -378,6 +491,7 @@ export const subscribeToExpenses = (groupId: string, callback: (expenses: Expens
   const q = query(
     expensesRef, 
     where('groupId', '==', groupId), 
+    orderBy('date', 'desc'),
     orderBy('createdAt', 'desc'),
     limit(50)
   );
@@ -385,12 +499,82 @@ export const subscribeToExpenses = (groupId: string, callback: (expenses: Expens
     const expenses = snapshot.docs.map((doc) => ({
       id: doc.id,
       ...doc.data(),
-      createdAt: doc.data().createdAt?.toDate() || new Date(),
+      ...toLedgerDates(doc.data()),
     })) as Expense[];
     callback(expenses);
   });
 };
 
+/**
+ * Every expense dated on or after `since`, without the list's cap, for totals
+ * over a date range such as budget spending
+ */
+export const subscribeToExpensesSince = (groupId: string, since: Date, callback: (expenses: Expense[]) => void) => {
+  const expensesRef = collection(db, 'expenses');
+  const q = query(expensesRef, where('groupId', '==', groupId), where('date', '>=', Timestamp.fromDate(since)));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const expenses = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+        ...toLedgerDates(doc.data()),
+      })) as Expense[];
+      callback(expenses.sort(byDateDesc));
+    },
+    (error) => {
+      // No callback: an empty list would look like spending dropped
+      console.error('Error subscribing to expenses by date:', error);
+    }
+  );
+};
+
+/**
+ * Every expense and payment in the group, without the list's cap, for balances.
+ * Calls back once both have loaded, then on every change.
+ */
+export const subscribeToLedger = (
+  groupId: string,
+  callback: (ledger: { expenses: Expense[]; payments: Payment[] }) => void
+) => {
+  let expenses: Expense[] | null = null;
+  let payments: Payment[] | null = null;
+  const emit = () => {
+    if (expenses && payments) callback({ expenses, payments });
+  };
+
+  const unsubscribeExpenses = onSnapshot(
+    query(collection(db, 'expenses'), where('groupId', '==', groupId)),
+    (snapshot) => {
+      expenses = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data(), ...toLedgerDates(doc.data()) }) as Expense)
+        .sort(byDateDesc);
+      emit();
+    },
+    (error) => {
+      // No callback: a partial ledger would show the wrong balances
+      console.error('Error subscribing to ledger expenses:', error);
+    }
+  );
+  const unsubscribePayments = onSnapshot(
+    query(collection(db, 'payments'), where('groupId', '==', groupId)),
+    (snapshot) => {
+      payments = snapshot.docs
+        .map((doc) => ({ id: doc.id, ...doc.data(), ...toLedgerDates(doc.data()) }) as Payment)
+        .sort(byDateDesc);
+      emit();
+    },
+    (error) => {
+      console.error('Error subscribing to ledger payments:', error);
+    }
+  );
+
+  return () => {
+    unsubscribeExpenses();
+    unsubscribePayments();
+  };
+};
+
 export const updateExpense = async (
   expenseId: string,
   updates: Partial<Omit<Expense, 'id' | 'createdAt' | 'createdBy' | 'groupId'>>,
@@ -405,9 +589,42 @@ export const updateExpense = async (
   }
   
   const currentExpense = expenseSnap.data() as Expense;
+  const currentDate = toLedgerDates(expenseSnap.data()).date;
+  const group = await assertLedgerOpen(currentExpense.groupId, updates.date ? [currentDate, updates.date] : [currentDate]);
+  
+  const mergedExpense = { ...currentExpense, ...updates };
+  if (updates.paidBy && !updates.payers) {
+    delete mergedExpense.payers;
+  }
+  const splitError = validateSplit(mergedExpense, group?.baseCurrency) || validatePayers(mergedExpense, group?.baseCurrency);
+  if (splitError) {
+    throw new Error(splitError);
+  }
+  assertValidExchangeRate(mergedExpense.exchangeRate);
+  
+  // Changing the split type drops the fields the new type doesn't use
+  const expenseUpdates: { [field: string]: unknown } = { ...updates };
+  if (updates.date) {
+    expenseUpdates.date = Timestamp.fromDate(updates.date);
+  }
+  if (updates.notes !== undefined && !updates.notes.trim()) {
+    expenseUpdates.notes = deleteField();
+  }
+  if (updates.splitType && !usesSplitValues(updates.splitType)) {
+    expenseUpdates.splits = deleteField();
+  }
+  if (updates.splitType && updates.splitType !== 'itemized') {
+    expenseUpdates.items = deleteField();
+    expenseUpdates.tax = deleteField();
+    expenseUpdates.tip = deleteField();
+  }
+  // A single payer is stored in paidBy alone
+  if (updates.paidBy && (!updates.payers || Object.keys(updates.payers).length < 2)) {
+    expenseUpdates.payers = deleteField();
+  }
   
   // Update the expense
-  await updateDoc(expenseRef, updates);
+  await updateDoc(expenseRef, expenseUpdates);
   
   // Create activity - fetch userName if not provided
   let finalUserName = userName || '';
@@ -421,15 +638,37 @@ export const updateExpense = async (
   if (updates.title && updates.title !== currentExpense.title) {
     changes.push(`title to "${updates.title}"`);
   }
+  if (updates.category && updates.category !== (currentExpense.category || 'other')) {
+    changes.push('category');
+  }
+  if (updates.notes !== undefined && updates.notes.trim() !== (currentExpense.notes || '')) {
+    changes.push('notes');
+  }
+  if (updates.date && updates.date.getTime() !== toLedgerDates(expenseSnap.data()).date.getTime()) {
+    changes.push(`date to ${updates.date.toLocaleDateString()}`);
+  }
   if (updates.amount && updates.amount !== currentExpense.amount) {
-    changes.push(`amount to $${updates.amount.toFixed(2)}`);
+    changes.push(`amount to ${formatMoney(updates.amount, updates.currency || currentExpense.currency)}`);
+  }
+  if (updates.currency && updates.currency !== (currentExpense.currency || group?.baseCurrency || DEFAULT_CURRENCY)) {
+    changes.push(`currency to ${updates.currency}`);
   }
   if (updates.sharedWith && JSON.stringify(updates.sharedWith.sort()) !== JSON.stringify(currentExpense.sharedWith.sort())) {
     changes.push('shared members');
   }
-  if (updates.paidBy && updates.paidBy !== currentExpense.paidBy) {
+  if (
+    (updates.paidBy && updates.paidBy !== currentExpense.paidBy) ||
+    (updates.payers && JSON.stringify(updates.payers) !== JSON.stringify(currentExpense.payers || {}))
+  ) {
     changes.push('paid by');
   }
+  if (
+    (updates.splitType && updates.splitType !== (currentExpense.splitType || 'equal')) ||
+    (updates.splits && JSON.stringify(updates.splits) !== JSON.stringify(currentExpense.splits || {})) ||
+    (updates.items && JSON.stringify(updates.items) !== JSON.stringify(currentExpense.items || []))
+  ) {
+    changes.push('split');
+  }
   
   if (changes.length > 0) {
     await createActivity({
@@ -442,9 +681,188 @@ export const updateExpense = async (
   }
 };
 
-export const deleteExpense = async (expenseId: string): Promise<void> => {
+export const deleteExpense = async (groupId: string, expenseId: string): Promise<void> => {
   const expenseRef = doc(db, 'expenses', expenseId);
-  await deleteDoc(expenseRef);
+  const expenseSnap = await getDoc(expenseRef);
+  if (expenseSnap.exists()) {
+    await assertLedgerOpen(expenseSnap.data().groupId, [toLedgerDates(expenseSnap.data()).date]);
+  }
+  const receipts: Receipt[] = expenseSnap.exists() ? expenseSnap.data().receipts || [] : [];
+
+  // Firestore keeps subcollections of deleted documents, so remove the comments too.
+  // The read rule checks each comment's group, so the query has to filter on it.
+  const commentsSnapshot = await getDocs(
+    query(collection(db, 'expenses', expenseId, 'comments'), where('groupId', '==', groupId))
+  );
+  const batch = writeBatch(db);
+  commentsSnapshot.docs.forEach((commentDoc) => batch.delete(commentDoc.ref));
+  batch.delete(expenseRef);
+  await batch.commit();
+
+  await deleteReceiptFiles(receipts);
+};
+
+// Receipt operations (images in Storage, listed on the expense)
+const MAX_RECEIPTS_PER_EXPENSE = 5;
+const MAX_RECEIPT_UPLOAD_BYTES = 20 * 1024 * 1024; // Before downscaling
+
+const deleteReceiptFiles = async (receipts: Receipt[]): Promise<void> => {
+  const paths = receipts.flatMap((receipt) => [receipt.path, receipt.thumbnailPath]);
+  await Promise.all(
+    paths.map((path) =>
+      deleteObject(storageRef(storage, path)).catch((error) => {
+        // Already gone is fine; anything else is logged and left behind
+        if (error?.code !== 'storage/object-not-found') {
+          console.error(`Error deleting receipt file ${path}:`, error);
+        }
+      })
+    )
+  );
+};
+
+/**
+ * Downscales the images, uploads each with a thumbnail under the expense's
+ * group and adds them to the expense. If any upload fails, the files
+ * uploaded so far are removed and the expense is left unchanged.
+ */
+export const addReceipts = async (
+  expense: Pick<Expense, 'id' | 'groupId' | 'receipts'>,
+  files: File[]
+): Promise<Receipt[]> => {
+  if ((expense.receipts?.length || 0) + files.length > MAX_RECEIPTS_PER_EXPENSE) {
+    throw new Error(`An expense can have at most ${MAX_RECEIPTS_PER_EXPENSE} receipts`);
+  }
+  const invalidFile = files.find((file) => !file.type.startsWith('image/') || file.size > MAX_RECEIPT_UPLOAD_BYTES);
+  if (invalidFile) {
+    throw new Error(`"${invalidFile.name}" must be an image under ${MAX_RECEIPT_UPLOAD_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const receipts: Receipt[] = [];
+  try {
+    for (const file of files) {
+      const id = crypto.randomUUID();
+      const basePath = `receipts/${expense.groupId}/${expense.id}/${id}`;
+      const [image, thumbnail] = await Promise.all([
+        downscaleImage(file, RECEIPT_MAX_DIMENSION),
+        downscaleImage(file, THUMBNAIL_MAX_DIMENSION, 0.7),
+      ]);
+      const receipt = { id, path: `${basePath}.jpg`, thumbnailPath: `${basePath}_thumb.jpg` };
+      receipts.push(receipt);
+      await Promise.all([
+        uploadBytes(storageRef(storage, receipt.path), image, { contentType: 'image/jpeg' }),
+        uploadBytes(storageRef(storage, receipt.thumbnailPath), thumbnail, { contentType: 'image/jpeg' }),
+      ]);
+    }
+    await updateDoc(doc(db, 'expenses', expense.id), { receipts: arrayUnion(...receipts) });
+  } catch (error) {
+    await deleteReceiptFiles(receipts);
+    throw error;
+  }
+
+  return receipts;
+};
+
+export const removeReceipt = async (expenseId: string, receipt: Receipt): Promise<void> => {
+  await updateDoc(doc(db, 'expenses', expenseId), { receipts: arrayRemove(receipt) });
+  await deleteReceiptFiles([receipt]);
+};
+
+// Download URLs are only handed out to group members by the Storage rules
+export const getReceiptUrl = (path: string): Promise<string> => {
+  return getDownloadURL(storageRef(storage, path));
+};
+
+// Comment operations (stored in a subcollection of the expense)
+const MAX_COMMENT_LENGTH = 1000;
+
+// Filtered by group for the read rule, and sorted here so no composite index is needed
+export const subscribeToComments = (groupId: string, expenseId: string, callback: (comments: Comment[]) => void) => {
+  const commentsRef = collection(db, 'expenses', expenseId, 'comments');
+  const q = query(commentsRef, where('groupId', '==', groupId));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const comments = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+        createdAt: doc.data().createdAt?.toDate() || new Date(),
+      })) as Comment[];
+      callback(comments.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()));
+    },
+    (error) => {
+      console.error('Error subscribing to comments:', error);
+      callback([]);
+    }
+  );
+};
+
+/**
+ * Counts the comments on each of a group's expenses, keyed by expense ID.
+ * Expenses without comments are left out.
+ */
+export const subscribeToCommentCounts = (
+  groupId: string,
+  callback: (counts: { [expenseId: string]: number }) => void
+) => {
+  const q = query(collectionGroup(db, 'comments'), where('groupId', '==', groupId));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const counts: { [expenseId: string]: number } = {};
+      snapshot.docs.forEach((doc) => {
+        const expenseId = doc.data().expenseId as string;
+        counts[expenseId] = (counts[expenseId] || 0) + 1;
+      });
+      callback(counts);
+    },
+    (error) => {
+      console.error('Error subscribing to comment counts:', error);
+      if (error?.code === 'failed-precondition') {
+        console.error('Firestore index missing for comments. Please enable the collection group index: comments (groupId)');
+      }
+      callback({});
+    }
+  );
+};
+
+export const createComment = async (
+  commentData: Omit<Comment, 'id' | 'createdAt'>,
+  expenseTitle: string
+): Promise<string> => {
+  const text = commentData.text.trim();
+  if (!text) {
+    throw new Error('Comment cannot be empty');
+  }
+  if (text.length > MAX_COMMENT_LENGTH) {
+    throw new Error(`Comments can be at most ${MAX_COMMENT_LENGTH} characters`);
+  }
+
+  const commentsRef = collection(db, 'expenses', commentData.expenseId, 'comments');
+  const docRef = await addDoc(commentsRef, {
+    ...commentData,
+    text,
+    createdAt: Timestamp.now(),
+  });
+
+  // Don't let activity creation failure block the comment
+  try {
+    const preview = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+    await createActivity({
+      groupId: commentData.groupId,
+      type: 'comment_added',
+      message: `commented on "${expenseTitle}": ${preview}`,
+      userId: commentData.authorId,
+      userName: commentData.authorName,
+    });
+  } catch (activityError) {
+    console.error('Error creating comment activity:', activityError);
+  }
+
+  return docRef.id;
+};
+
+export const deleteComment = async (expenseId: string, commentId: string): Promise<void> => {
+  await deleteDoc(doc(db, 'expenses', expenseId, 'comments', commentId));
 };
 
 // Activity operations
@@ -506,6 +924,8 @@ export const createPayment = async (
     throw new Error('Payment amount must be greater than 0');
   }
 
+  assertValidExchangeRate(paymentData.exchangeRate);
+
   try {
     const group = await getGroup(paymentData.groupId);
     if (!group) {
@@ -520,6 +940,8 @@ export const createPayment = async (
     }
   }
 
+  const group = await assertLedgerOpen(paymentData.groupId, [paymentData.date]);
+
   const paymentsRef = collection(db, 'payments');
   
   try {
@@ -528,8 +950,11 @@ export const createPayment = async (
       from: paymentData.from,
       to: paymentData.to,
       amount: paymentData.amount,
+      currency: paymentData.currency || group?.baseCurrency || DEFAULT_CURRENCY,
+      exchangeRate: paymentData.exchangeRate || 1,
       paymentMethod: paymentData.paymentMethod,
       createdBy: paymentData.createdBy,
+      date: Timestamp.fromDate(paymentData.date),
       createdAt: Timestamp.now(),
     };
     
@@ -554,7 +979,7 @@ export const createPayment = async (
       await createActivity({
         groupId: paymentData.groupId,
         type: 'expense_added',
-        message: `recorded payment: ${fromUser?.name || 'Someone'} paid ${toUser?.name || 'someone'} $${paymentData.amount.toFixed(2)} via ${paymentData.paymentMethod}`,
+        message: `recorded payment: ${fromUser?.name || 'Someone'} paid ${toUser?.name || 'someone'} ${formatMoney(paymentData.amount, paymentDoc.currency)} via ${paymentData.paymentMethod}`,
         userId: paymentData.createdBy,
         userName: finalUserName,
       });
@@ -577,6 +1002,7 @@ export const getPaymentsByGroup = async (groupId: string): Promise<Payment[]> =>
   const q = query(
     paymentsRef,
     where('groupId', '==', groupId),
+    orderBy('date', 'desc'),
     orderBy('createdAt', 'desc'),
     limit(50)
   );
@@ -584,7 +1010,7 @@ export const getPaymentsByGroup = async (groupId: string): Promise<Payment[]> =>
   return querySnapshot.docs.map((doc) => ({
     id: doc.id,
     ...doc.data(),
-    createdAt: doc.data().createdAt?.toDate() || new Date(),
+    ...toLedgerDates(doc.data()),
   })) as Payment[];
 };
 
@@ -593,6 +1019,7 @@ export const subscribeToPayments = (groupId: string, callback: (payments: Paymen
   const q = query(
     paymentsRef, 
     where('groupId', '==', groupId), 
+    orderBy('date', 'desc'),
     orderBy('createdAt', 'desc'),
     limit(50)
   );
@@ -602,14 +1029,14 @@ export const subscribeToPayments = (groupId: string, callback: (payments: Paymen
       const payments = snapshot.docs.map((doc) => ({
         id: doc.id,
         ...doc.data(),
-        createdAt: doc.data().createdAt?.toDate() || new Date(),
+        ...toLedgerDates(doc.data()),
       })) as Payment[];
       callback(payments);
     },
     (error) => {
       console.error('Error subscribing to payments:', error);
       if (error?.code === 'failed-precondition') {
-        console.error('Firestore index missing for payments. Please create a composite index: payments (groupId, createdAt)');
+        console.error('Firestore index missing for payments. Please create a composite index: payments (groupId, date, createdAt)');
       }
       callback([]);
     }
@@ -618,6 +1045,1124 @@ export const subscribeToPayments = (groupId: string, callback: (payments: Paymen
 
 export const deletePayment = async (paymentId: string): Promise<void> => {
   const paymentRef = doc(db, 'payments', paymentId);
+  const paymentSnap = await getDoc(paymentRef);
+  if (paymentSnap.exists()) {
+    await assertLedgerOpen(paymentSnap.data().groupId, [toLedgerDates(paymentSnap.data()).date]);
+  }
   await deleteDoc(paymentRef);
 };
 
+// Import operations
+const IMPORT_BATCH_SIZE = 400; // Firestore allows 500 writes per batch
+
+type BulkWrite = { collectionName: string; id: string; data: DocumentData; merge?: boolean };
+
+const commitInBatches = async (writes: BulkWrite[], onProgress?: (written: number) => void): Promise<void> => {
+  for (let start = 0; start < writes.length; start += IMPORT_BATCH_SIZE) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + IMPORT_BATCH_SIZE).forEach(({ collectionName, id, data, merge }) => {
+      batch.set(doc(db, collectionName, id), data, { merge: !!merge });
+    });
+    await batch.commit();
+    onProgress?.(Math.min(start + IMPORT_BATCH_SIZE, writes.length));
+  }
+};
+
+// Firestore rejects undefined values, which parsed files leave on unset optional fields
+const removeUndefinedFields = (data: DocumentData): DocumentData => {
+  Object.keys(data).forEach((key) => {
+    if (data[key] === undefined) delete data[key];
+  });
+  return data;
+};
+
+// Checks an expense written in bulk and builds its document
+const toBulkExpenseDoc = (
+  expenseData: Omit<Expense, 'id' | 'createdAt'> & { createdAt?: Date },
+  createdAt: Timestamp,
+  baseCurrency: string
+): DocumentData => {
+  const splitError = validateSplit(expenseData, baseCurrency) || validatePayers(expenseData, baseCurrency);
+  if (splitError) {
+    throw new Error(`"${expenseData.title}": ${splitError}`);
+  }
+  const expenseDoc = removeUndefinedFields(removeUnusedSplitFields({
+    ...expenseData,
+    currency: expenseData.currency || baseCurrency,
+    exchangeRate: expenseData.exchangeRate || 1,
+    splitType: expenseData.splitType || 'equal',
+    date: Timestamp.fromDate(expenseData.date),
+    createdAt,
+  }));
+  if (!expenseDoc.notes?.trim()) {
+    delete expenseDoc.notes;
+  }
+  return expenseDoc;
+};
+
+// Checks a payment written in bulk and builds its document
+const toBulkPaymentDoc = (
+  paymentData: Omit<Payment, 'id' | 'createdAt'> & { createdAt?: Date },
+  createdAt: Timestamp,
+  baseCurrency: string
+): DocumentData => {
+  const currency = paymentData.currency || baseCurrency;
+  if (paymentData.from === paymentData.to || !(paymentData.amount > 0)) {
+    throw new Error(`Payment of ${formatMoney(paymentData.amount, currency)} on ${paymentData.date.toLocaleDateString()} is not valid`);
+  }
+  const paymentDoc = removeUndefinedFields({
+    ...paymentData,
+    currency,
+    exchangeRate: paymentData.exchangeRate || 1,
+    date: Timestamp.fromDate(paymentData.date),
+    createdAt,
+  });
+  if (!paymentDoc.note?.trim()) {
+    delete paymentDoc.note;
+  }
+  return paymentDoc;
+};
+
+// Copies an entry without its id, so it can be written under a new one
+const withoutId = <T extends { id: string }>(entry: T): Omit<T, 'id'> => {
+  const copy: Partial<T> = { ...entry };
+  delete copy.id;
+  return copy as Omit<T, 'id'>;
+};
+
+const describeLedgerCounts = (expenseCount: number, paymentCount: number) =>
+  `${expenseCount} expense${expenseCount === 1 ? '' : 's'} and ${paymentCount} payment${paymentCount === 1 ? '' : 's'}`;
+
+/**
+ * Writes expenses and payments brought in from another app, keeping their
+ * ids, in batches. Calls back with the number written after each batch and
+ * logs a single activity once everything is in.
+ */
+// Ids of every expense and payment in the group, not just the latest ones the lists load
+export const getLedgerEntryIds = async (groupId: string): Promise<Set<string>> => {
+  const byGroup = (collectionName: string) => getDocs(query(collection(db, collectionName), where('groupId', '==', groupId)));
+  const [expensesSnapshot, paymentsSnapshot] = await Promise.all([byGroup('expenses'), byGroup('payments')]);
+  return new Set([...expensesSnapshot.docs, ...paymentsSnapshot.docs].map((entry) => entry.id));
+};
+
+/**
+ * Saves imported expenses and payments under the ids the import gave them.
+ * Entries that already exist are left alone, since an earlier import saved
+ * them and they may have been edited or had receipts added since.
+ */
+export const importLedgerEntries = async (
+  groupId: string,
+  entries: { expenses: Array<Omit<Expense, 'createdAt'>>; payments: Array<Omit<Payment, 'createdAt'>> },
+  source: string,
+  userId: string,
+  userName: string,
+  onProgress?: (written: number) => void
+): Promise<void> => {
+  const existingIds = await getLedgerEntryIds(groupId);
+  const expenses = entries.expenses.filter((expense) => !existingIds.has(expense.id));
+  const payments = entries.payments.filter((payment) => !existingIds.has(payment.id));
+
+  const group = await assertLedgerOpen(groupId, [...expenses, ...payments].map((entry) => entry.date));
+  const baseCurrency = group?.baseCurrency || DEFAULT_CURRENCY;
+  const writes: BulkWrite[] = [
+    ...expenses.map(({ id, ...expenseData }) => ({
+      collectionName: 'expenses',
+      id,
+      data: toBulkExpenseDoc({ ...expenseData, groupId, createdBy: userId }, Timestamp.now(), baseCurrency),
+    })),
+    ...payments.map(({ id, ...paymentData }) => ({
+      collectionName: 'payments',
+      id,
+      data: toBulkPaymentDoc({ ...paymentData, groupId, createdBy: userId }, Timestamp.now(), baseCurrency),
+    })),
+  ];
+
+  await commitInBatches(writes, onProgress);
+
+  if (writes.length === 0) return;
+  try {
+    await createActivity({
+      groupId,
+      type: 'expense_added',
+      message: `imported ${describeLedgerCounts(expenses.length, payments.length)} from ${source}`,
+      userId,
+      userName,
+    });
+  } catch (activityError) {
+    console.error('Error creating import activity:', activityError);
+  }
+};
+
+/**
+ * Reads a group with every expense, payment and activity, for backups and
+ * statements. Unlike the subscriptions, nothing is capped.
+ */
+export const getFullGroupData = async (
+  groupId: string
+): Promise<{ group: Group; expenses: Expense[]; payments: Payment[]; activities: Activity[] }> => {
+  const group = await getGroup(groupId);
+  if (!group) {
+    throw new Error('Group not found');
+  }
+
+  const byGroup = (collectionName: string) => getDocs(query(collection(db, collectionName), where('groupId', '==', groupId)));
+  const [expensesSnapshot, paymentsSnapshot, activitiesSnapshot] = await Promise.all([
+    byGroup('expenses'),
+    byGroup('payments'),
+    byGroup('activities'),
+  ]);
+
+  const membersDetail: { [userId: string]: GroupMember } = {};
+  Object.entries(group.membersDetail || {}).forEach(([memberId, member]) => {
+    const joinedAt = member.joinedAt as Date | Timestamp | undefined;
+    membersDetail[memberId] = { ...member, joinedAt: joinedAt instanceof Timestamp ? joinedAt.toDate() : joinedAt || group.createdAt };
+  });
+
+  return {
+    group: { ...group, membersDetail },
+    expenses: expensesSnapshot.docs
+      .map((doc) => ({ id: doc.id, ...doc.data(), ...toLedgerDates(doc.data()) }) as Expense)
+      .sort(byDateDesc),
+    payments: paymentsSnapshot.docs
+      .map((doc) => ({ id: doc.id, ...doc.data(), ...toLedgerDates(doc.data()) }) as Payment)
+      .sort(byDateDesc),
+    activities: activitiesSnapshot.docs
+      .map((doc) => ({ id: doc.id, ...doc.data(), createdAt: doc.data().createdAt?.toDate() || new Date() }) as Activity)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+  };
+};
+
+/**
+ * Gives expenses and payments recorded before `date` existed a date, set to
+ * when they were recorded. The lists and date range queries order and filter
+ * on `date`, so Firestore leaves entries without one out of them. Marks the
+ * group afterwards so this only ever runs once. Returns how many entries were
+ * updated.
+ */
+export const backfillLedgerDates = async (groupId: string): Promise<number> => {
+  const byGroup = (collectionName: string) => getDocs(query(collection(db, collectionName), where('groupId', '==', groupId)));
+  const [expensesSnapshot, paymentsSnapshot] = await Promise.all([byGroup('expenses'), byGroup('payments')]);
+
+  const writes: BulkWrite[] = [];
+  [{ collectionName: 'expenses', snapshot: expensesSnapshot }, { collectionName: 'payments', snapshot: paymentsSnapshot }]
+    .forEach(({ collectionName, snapshot }) => {
+      snapshot.docs
+        .filter((entry) => !entry.data().date && entry.data().createdAt)
+        .forEach((entry) => {
+          writes.push({ collectionName, id: entry.id, data: { date: entry.data().createdAt }, merge: true });
+        });
+    });
+
+  await commitInBatches(writes);
+  await updateDoc(doc(db, 'groups', groupId), { datesBackfilled: true });
+  return writes.length;
+};
+
+/**
+ * Restores a backup whose member UIDs have already been remapped. With a
+ * target group the entries are replayed into it, which must have no
+ * expenses or payments yet, and its currency and categories follow the
+ * backup; people in the backup must be its members or former members.
+ * Without one a new group is created with the restoring user as creator and
+ * admin, and the backup's former members stay former members. Every entry
+ * gets a new id; the original creators and timestamps are kept. Returns the
+ * group id.
+ */
+export const restoreGroupBackup = async (
+  backup: Pick<GroupBackup, 'group' | 'expenses' | 'payments' | 'activities'>,
+  restorer: { uid: string; name: string; email: string },
+  targetGroupId?: string,
+  onProgress?: (written: number) => void
+): Promise<string> => {
+  const referencedIds = getBackupMemberIds(backup);
+  let groupId: string;
+
+  if (targetGroupId) {
+    const target = await getGroup(targetGroupId);
+    if (!target) {
+      throw new Error('Group not found');
+    }
+    const ledgerError = getLedgerError(target, [...backup.expenses, ...backup.payments].map((entry) => entry.date));
+    if (ledgerError) {
+      throw new Error(ledgerError);
+    }
+    const [existingExpenses, existingPayments] = await Promise.all(
+      ['expenses', 'payments'].map((collectionName) =>
+        getDocs(query(collection(db, collectionName), where('groupId', '==', targetGroupId), limit(1)))
+      )
+    );
+    if (!existingExpenses.empty || !existingPayments.empty) {
+      throw new Error('A backup can only be replayed into a group with no expenses or payments');
+    }
+    const outsiders = referencedIds.filter(
+      (memberId) => !target.members.includes(memberId) && !target.formerMembers?.[memberId]
+    );
+    if (outsiders.length > 0) {
+      throw new Error('Every person in the backup must be matched to a member or former member of this group');
+    }
+
+    const settings: DocumentData = {
+      baseCurrency: backup.group.baseCurrency || DEFAULT_CURRENCY,
+      simplifyDebts: !!backup.group.simplifyDebts,
+    };
+    const customCategories = Array.from(new Set([...(target.customCategories || []), ...(backup.group.customCategories || [])]));
+    if (customCategories.length > 0) settings.customCategories = customCategories;
+    await updateDoc(doc(db, 'groups', targetGroupId), settings);
+    groupId = targetGroupId;
+  } else {
+    const membersDetail: { [userId: string]: GroupMember } = { ...backup.group.membersDetail };
+    membersDetail[restorer.uid] = {
+      uid: restorer.uid,
+      name: membersDetail[restorer.uid]?.name || restorer.name,
+      email: membersDetail[restorer.uid]?.email || restorer.email,
+      role: 'admin',
+      joinedAt: membersDetail[restorer.uid]?.joinedAt || new Date(),
+    };
+    // Whoever left or was removed stays out; anyone else the ledger names is a member
+    const formerMembers = { ...backup.group.formerMembers };
+    delete formerMembers[restorer.uid];
+    const members = Array.from(
+      new Set([...backup.group.members, ...referencedIds.filter((memberId) => !formerMembers[memberId]), restorer.uid])
+    );
+
+    const groupRef = doc(collection(db, 'groups'));
+    const groupDoc: DocumentData = {
+      name: backup.group.name,
+      createdBy: restorer.uid,
+      members,
+      membersDetail,
+      joinCode: generateJoinCode(),
+      baseCurrency: backup.group.baseCurrency || DEFAULT_CURRENCY,
+      simplifyDebts: !!backup.group.simplifyDebts,
+      datesBackfilled: true,
+      createdAt: Timestamp.fromDate(backup.group.createdAt),
+    };
+    if (backup.group.customCategories?.length) groupDoc.customCategories = backup.group.customCategories;
+    if (Object.keys(formerMembers).length > 0) {
+      groupDoc.formerMembers = Object.fromEntries(
+        Object.entries(formerMembers).map(([memberId, member]) => [
+          memberId,
+          { ...member, leftAt: Timestamp.fromDate(member.leftAt) },
+        ])
+      );
+    }
+    await setDoc(groupRef, groupDoc);
+    groupId = groupRef.id;
+  }
+
+  const newId = (collectionName: string) => doc(collection(db, collectionName)).id;
+  const writes: BulkWrite[] = [
+    ...backup.expenses.map((expense) => ({
+      collectionName: 'expenses',
+      id: newId('expenses'),
+      data: toBulkExpenseDoc(
+        { ...withoutId(expense), groupId },
+        Timestamp.fromDate(expense.createdAt),
+        backup.group.baseCurrency || DEFAULT_CURRENCY
+      ),
+    })),
+    ...backup.payments.map((payment) => ({
+      collectionName: 'payments',
+      id: newId('payments'),
+      data: toBulkPaymentDoc(
+        { ...withoutId(payment), groupId },
+        Timestamp.fromDate(payment.createdAt),
+        backup.group.baseCurrency || DEFAULT_CURRENCY
+      ),
+    })),
+    ...backup.activities.map((activity) => ({
+      collectionName: 'activities',
+      id: newId('activities'),
+      data: { ...withoutId(activity), groupId, createdAt: Timestamp.fromDate(activity.createdAt) },
+    })),
+  ];
+  await commitInBatches(writes, onProgress);
+
+  try {
+    await createActivity({
+      groupId,
+      type: 'group_created',
+      message: `restored ${describeLedgerCounts(backup.expenses.length, backup.payments.length)} from a backup`,
+      userId: restorer.uid,
+      userName: restorer.name,
+    });
+  } catch (activityError) {
+    console.error('Error creating restore activity:', activityError);
+  }
+
+  return groupId;
+};
+
+// Exchange rate operations (stored in a subcollection of the group)
+const toExchangeRate = (snapshot: { id: string; data: () => DocumentData }): ExchangeRate => ({
+  id: snapshot.id,
+  ...snapshot.data(),
+  effectiveDate: snapshot.data().effectiveDate?.toDate() || new Date(),
+  createdAt: snapshot.data().createdAt?.toDate() || new Date(),
+}) as ExchangeRate;
+
+export const subscribeToExchangeRates = (groupId: string, callback: (rates: ExchangeRate[]) => void) => {
+  const ratesRef = collection(db, 'groups', groupId, 'exchangeRates');
+  const q = query(ratesRef, orderBy('effectiveDate', 'desc'));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(snapshot.docs.map(toExchangeRate));
+    },
+    (error) => {
+      console.error('Error subscribing to exchange rates:', error);
+      callback([]);
+    }
+  );
+};
+
+export const createExchangeRate = async (
+  rateData: Omit<ExchangeRate, 'id' | 'createdAt'>
+): Promise<string> => {
+  if (!rateData.groupId || !rateData.fromCurrency || !rateData.toCurrency || !rateData.createdBy) {
+    throw new Error('Missing required exchange rate fields');
+  }
+
+  if (rateData.fromCurrency === rateData.toCurrency) {
+    throw new Error('An exchange rate needs two different currencies');
+  }
+
+  assertValidExchangeRate(rateData.rate);
+
+  // Rates feed into the balances, so they are frozen along with the ledger
+  await assertLedgerOpen(rateData.groupId);
+
+  const ratesRef = collection(db, 'groups', rateData.groupId, 'exchangeRates');
+  const docRef = await addDoc(ratesRef, {
+    ...rateData,
+    effectiveDate: Timestamp.fromDate(rateData.effectiveDate),
+    createdAt: Timestamp.now(),
+  });
+  return docRef.id;
+};
+
+export const updateExchangeRate = async (
+  groupId: string,
+  rateId: string,
+  updates: Partial<Pick<ExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'effectiveDate'>>
+): Promise<void> => {
+  assertValidExchangeRate(updates.rate);
+
+  await assertLedgerOpen(groupId);
+
+  const rateRef = doc(db, 'groups', groupId, 'exchangeRates', rateId);
+  await updateDoc(rateRef, {
+    ...updates,
+    ...(updates.effectiveDate && { effectiveDate: Timestamp.fromDate(updates.effectiveDate) }),
+  });
+};
+
+export const deleteExchangeRate = async (groupId: string, rateId: string): Promise<void> => {
+  await assertLedgerOpen(groupId);
+  const rateRef = doc(db, 'groups', groupId, 'exchangeRates', rateId);
+  await deleteDoc(rateRef);
+};
+
+// The creator and admins close periods and archive the group
+const isGroupAdmin = (group: Group, userId: string) =>
+  group.createdBy === userId || group.membersDetail?.[userId]?.role === 'admin';
+
+// Settle-up period operations (checkpoints stored in a subcollection of the group)
+const toBalanceCheckpoint = (snapshot: { id: string; data: () => DocumentData }): BalanceCheckpoint => {
+  const data = snapshot.data();
+  return {
+    id: snapshot.id,
+    ...data,
+    ...(data.startDate && { startDate: data.startDate.toDate() }),
+    endDate: data.endDate?.toDate() || new Date(),
+    createdAt: data.createdAt?.toDate() || new Date(),
+  } as BalanceCheckpoint;
+};
+
+export const subscribeToBalanceCheckpoints = (groupId: string, callback: (checkpoints: BalanceCheckpoint[]) => void) => {
+  const checkpointsRef = collection(db, 'groups', groupId, 'balanceCheckpoints');
+  const q = query(checkpointsRef, orderBy('endDate', 'desc'));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(snapshot.docs.map(toBalanceCheckpoint));
+    },
+    (error) => {
+      console.error('Error subscribing to balance checkpoints:', error);
+      callback([]);
+    }
+  );
+};
+
+/**
+ * Reads the whole ledger with exchange rates applied, plus the checkpoint the
+ * open period starts from, for working out balances outside the group view
+ */
+const getRatedLedger = async (groupId: string) => {
+  const [{ group, expenses, payments }, ratesSnapshot, checkpointsSnapshot] = await Promise.all([
+    getFullGroupData(groupId),
+    getDocs(collection(db, 'groups', groupId, 'exchangeRates')),
+    getDocs(collection(db, 'groups', groupId, 'balanceCheckpoints')),
+  ]);
+  const baseCurrency = group.baseCurrency || DEFAULT_CURRENCY;
+  const exchangeRates = ratesSnapshot.docs.map(toExchangeRate);
+  return {
+    group,
+    baseCurrency,
+    expenses: applyExchangeRates(expenses, exchangeRates, baseCurrency),
+    payments: applyExchangeRates(payments, exchangeRates, baseCurrency),
+    checkpoint: getLatestCheckpoint(checkpointsSnapshot.docs.map(toBalanceCheckpoint)),
+  };
+};
+
+/**
+ * Closes the open period at the end of `lastDay`. The balances at that point
+ * are saved as a checkpoint the next period starts from, and expenses and
+ * payments dated up to then can no longer be changed. Returns the checkpoint id.
+ */
+export const closeBalancePeriod = async (
+  groupId: string,
+  name: string,
+  lastDay: Date,
+  admin: { uid: string; name: string }
+): Promise<string> => {
+  const periodName = name.trim();
+  if (!periodName) {
+    throw new Error('Give the period a name');
+  }
+
+  const { group, baseCurrency, expenses, payments, checkpoint } = await getRatedLedger(groupId);
+  if (!isGroupAdmin(group, admin.uid)) {
+    throw new Error('Only group admins can close a period');
+  }
+  const ledgerError = getLedgerError(group);
+  if (ledgerError) {
+    throw new Error(ledgerError);
+  }
+  const endDate = getPeriodEndDate(lastDay);
+  if (checkpoint && endDate <= checkpoint.endDate) {
+    throw new Error(`The period has to end after ${getPeriodLastDay(checkpoint.endDate).toLocaleDateString()}, when the last one did`);
+  }
+  if (endDate > getPeriodEndDate(new Date())) {
+    throw new Error('A period can only be closed up to today');
+  }
+
+  const period = getPeriodEntries({ startDate: checkpoint?.endDate, endDate }, expenses, payments);
+  const checkpointRef = doc(collection(db, 'groups', groupId, 'balanceCheckpoints'));
+  const batch = writeBatch(db);
+  batch.set(checkpointRef, {
+    groupId,
+    name: periodName,
+    ...(checkpoint && { startDate: Timestamp.fromDate(checkpoint.endDate) }),
+    endDate: Timestamp.fromDate(endDate),
+    balances: calculateBalances(period.expenses, period.payments, { baseCurrency, checkpoint }),
+    baseCurrency,
+    expenseCount: period.expenses.length,
+    paymentCount: period.payments.length,
+    createdBy: admin.uid,
+    createdAt: Timestamp.now(),
+  });
+  batch.update(doc(db, 'groups', groupId), { currentPeriodStart: Timestamp.fromDate(endDate) });
+  await batch.commit();
+
+  try {
+    await createActivity({
+      groupId,
+      type: 'period_closed',
+      message: `closed the period "${periodName}" with ${describeLedgerCounts(period.expenses.length, period.payments.length)}`,
+      userId: admin.uid,
+      userName: admin.name,
+    });
+  } catch (activityError) {
+    console.error('Error creating period activity:', activityError);
+  }
+
+  return checkpointRef.id;
+};
+
+// Archive operations
+
+/**
+ * Archives a group, freezing its expenses, payments and exchange rates.
+ * Balances are worked out from the full ledger; while any are open the group
+ * is only archived with `writeOff` set, and the debts being forgiven are kept
+ * on the archive record as the group showed them.
+ */
+export const archiveGroup = async (
+  groupId: string,
+  admin: { uid: string; name: string },
+  writeOff = false
+): Promise<GroupArchive> => {
+  const { group, baseCurrency, expenses, payments, checkpoint } = await getRatedLedger(groupId);
+  if (!isGroupAdmin(group, admin.uid)) {
+    throw new Error('Only group admins can archive the group');
+  }
+  if (group.archived) {
+    throw new Error('This group is already archived');
+  }
+
+  const balances = calculateBalances(expenses, payments, { baseCurrency, checkpoint });
+  const openBalances = group.simplifyDebts ? minimizeTransactions(balances, baseCurrency) : balances;
+  if (openBalances.length > 0 && !writeOff) {
+    throw new Error('Settle up or write off the open balances before archiving the group');
+  }
+
+  const archive: GroupArchive = {
+    archivedAt: new Date(),
+    archivedBy: admin.uid,
+    ...(openBalances.length > 0 && { writtenOff: openBalances }),
+  };
+  await updateDoc(doc(db, 'groups', groupId), {
+    archived: { ...archive, archivedAt: Timestamp.fromDate(archive.archivedAt) },
+  });
+
+  try {
+    await createActivity({
+      groupId,
+      type: 'group_archived',
+      message: openBalances.length > 0
+        ? `archived the group and wrote off ${openBalances.length} open balance${openBalances.length !== 1 ? 's' : ''}`
+        : 'archived the group',
+      userId: admin.uid,
+      userName: admin.name,
+    });
+  } catch (activityError) {
+    console.error('Error creating archive activity:', activityError);
+  }
+
+  return archive;
+};
+
+// The ledger was never changed by a write-off, so anything written off is
+// owed again once the group is reopened
+export const unarchiveGroup = async (groupId: string, admin: { uid: string; name: string }): Promise<void> => {
+  const group = await getGroup(groupId);
+  if (!group) {
+    throw new Error('Group not found');
+  }
+  if (!isGroupAdmin(group, admin.uid)) {
+    throw new Error('Only group admins can unarchive the group');
+  }
+  if (!group.archived) return;
+
+  await updateDoc(doc(db, 'groups', groupId), { archived: deleteField() });
+
+  try {
+    await createActivity({
+      groupId,
+      type: 'group_unarchived',
+      message: 'unarchived the group',
+      userId: admin.uid,
+      userName: admin.name,
+    });
+  } catch (activityError) {
+    console.error('Error creating unarchive activity:', activityError);
+  }
+};
+
+/**
+ * Takes someone out of the group: themselves when leaving, or anyone but the
+ * creator when an admin removes them. Nobody can go while a balance shown on
+ * the Balances tab involves them; those are settled with a payment first.
+ * Archived groups have nothing left to settle. Recurring expenses that can
+ * still add occurrences mustn't include them either. Their expenses and payments
+ * stay, and they're kept under formerMembers so those still show their name.
+ */
+export const removeGroupMember = async (
+  groupId: string,
+  memberId: string,
+  actor: { uid: string; name: string }
+): Promise<FormerMember> => {
+  const { group, baseCurrency, expenses, payments, checkpoint } = await getRatedLedger(groupId);
+  const leaving = memberId === actor.uid;
+  if (!group.members.includes(memberId)) {
+    throw new Error('This person is not a member of the group');
+  }
+  if (memberId === group.createdBy) {
+    throw new Error(leaving ? "The group's creator can't leave it" : "The group's creator can't be removed");
+  }
+  if (!leaving && !isGroupAdmin(group, actor.uid)) {
+    throw new Error('Only group admins can remove members');
+  }
+
+  const member = group.membersDetail?.[memberId] || (await getUser(memberId));
+  const memberName = member?.name || 'This member';
+  if (!group.archived) {
+    const balances = calculateBalances(expenses, payments, { baseCurrency, checkpoint });
+    const openBalances = (group.simplifyDebts ? minimizeTransactions(balances, baseCurrency) : balances)
+      .filter((balance) => balance.from === memberId || balance.to === memberId);
+    if (openBalances.length > 0) {
+      const owes = openBalances.filter((balance) => balance.from === memberId).reduce((sum, balance) => sum + balance.amount, 0);
+      const owed = openBalances.filter((balance) => balance.to === memberId).reduce((sum, balance) => sum + balance.amount, 0);
+      const position = [
+        owes > 0 && `${leaving ? 'owe' : 'owes'} ${formatMoney(owes, baseCurrency)}`,
+        owed > 0 && `${leaving ? 'are' : 'is'} owed ${formatMoney(owed, baseCurrency)}`,
+      ].filter(Boolean).join(' and ');
+      throw new Error(`${leaving ? 'You' : memberName} ${position}. Settle up before ${leaving ? 'leaving' : 'removing them'}.`);
+    }
+  }
+
+  // Schedules that can still add expenses would keep charging them after they've gone
+  const recurringSnapshot = await getDocs(collection(db, 'groups', groupId, 'recurringExpenses'));
+  const schedule = recurringSnapshot.docs
+    .map(toRecurringExpense)
+    .find((recurring) =>
+      (!recurring.endDate || recurring.endDate >= new Date()) &&
+      [recurring.paidBy, ...recurring.sharedWith, ...Object.keys(recurring.payers || {})].includes(memberId)
+    );
+  if (schedule) {
+    throw new Error(
+      `${leaving ? 'You are' : `${memberName} is`} part of the recurring expense "${schedule.title}". ` +
+      `Delete it or take ${leaving ? 'yourself' : 'them'} off it first.`
+    );
+  }
+
+  const former: FormerMember = {
+    uid: memberId,
+    name: member?.name || 'Unknown',
+    email: member?.email || '',
+    leftAt: new Date(),
+    ...(!leaving && { removedBy: actor.uid }),
+  };
+  await updateDoc(doc(db, 'groups', groupId), {
+    members: arrayRemove(memberId),
+    [`membersDetail.${memberId}`]: deleteField(),
+    [`formerMembers.${memberId}`]: { ...former, leftAt: Timestamp.fromDate(former.leftAt) },
+  });
+
+  try {
+    await createActivity({
+      groupId,
+      type: 'member_removed',
+      message: leaving ? 'left the group' : `removed ${former.name} from the group`,
+      userId: actor.uid,
+      userName: actor.name,
+    });
+  } catch (activityError) {
+    console.error('Error creating member removal activity:', activityError);
+  }
+
+  return former;
+};
+
+// Recurring expense operations (stored in a subcollection of the group)
+const toRecurringExpense = (snapshot: { id: string; data: () => Record<string, unknown> | undefined }): RecurringExpense => {
+  const data = snapshot.data() || {};
+  const toDate = (value: unknown) => (value instanceof Timestamp ? value.toDate() : undefined);
+  return {
+    id: snapshot.id,
+    ...data,
+    startDate: toDate(data.startDate) || new Date(),
+    endDate: toDate(data.endDate),
+    createdAt: toDate(data.createdAt) || new Date(),
+  } as RecurringExpense;
+};
+
+export const subscribeToRecurringExpenses = (
+  groupId: string,
+  callback: (recurringExpenses: RecurringExpense[]) => void
+) => {
+  const recurringRef = collection(db, 'groups', groupId, 'recurringExpenses');
+  const q = query(recurringRef, orderBy('createdAt', 'desc'));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      callback(snapshot.docs.map((doc) => toRecurringExpense(doc)));
+    },
+    (error) => {
+      console.error('Error subscribing to recurring expenses:', error);
+      callback([]);
+    }
+  );
+};
+
+export const createRecurringExpense = async (
+  recurringData: Omit<RecurringExpense, 'id' | 'createdAt' | 'nextIndex' | 'paused'>
+): Promise<string> => {
+  if (!recurringData.groupId || !recurringData.createdBy) {
+    throw new Error('Group ID and creator ID are required');
+  }
+
+  const group = await assertLedgerOpen(recurringData.groupId, [recurringData.startDate]);
+  const splitError = validateSplit(recurringData, group?.baseCurrency) || validatePayers(recurringData, group?.baseCurrency);
+  if (splitError) {
+    throw new Error(splitError);
+  }
+  assertValidExchangeRate(recurringData.exchangeRate);
+
+  if (recurringData.frequency === 'custom' && !(recurringData.intervalDays && recurringData.intervalDays >= 1)) {
+    throw new Error('Custom schedules need an interval of at least 1 day');
+  }
+
+  if (recurringData.endDate && recurringData.endDate < recurringData.startDate) {
+    throw new Error('End date must be on or after the start date');
+  }
+
+  const recurringDoc = removeUnusedSplitFields({
+    ...recurringData,
+    currency: recurringData.currency || group?.baseCurrency || DEFAULT_CURRENCY,
+    exchangeRate: recurringData.exchangeRate || 1,
+    splitType: recurringData.splitType || 'equal',
+    startDate: Timestamp.fromDate(recurringData.startDate),
+    endDate: recurringData.endDate ? Timestamp.fromDate(recurringData.endDate) : undefined,
+    nextIndex: 0,
+    paused: false,
+    createdAt: Timestamp.now(),
+  });
+  if (!recurringDoc.endDate) {
+    delete recurringDoc.endDate;
+  }
+  if (recurringDoc.frequency !== 'custom') {
+    delete recurringDoc.intervalDays;
+  }
+
+  const recurringRef = collection(db, 'groups', recurringData.groupId, 'recurringExpenses');
+  const docRef = await addDoc(recurringRef, recurringDoc);
+  return docRef.id;
+};
+
+export const updateRecurringExpense = async (
+  groupId: string,
+  recurringId: string,
+  updates: { endDate?: Date | null }
+): Promise<void> => {
+  const recurringRef = doc(db, 'groups', groupId, 'recurringExpenses', recurringId);
+  await updateDoc(recurringRef, {
+    ...(updates.endDate !== undefined && {
+      endDate: updates.endDate ? Timestamp.fromDate(updates.endDate) : deleteField(),
+    }),
+  });
+};
+
+/**
+ * Pauses or resumes a schedule. Resuming moves it on to the first occurrence
+ * from today, so what fell due while it was paused is never charged.
+ */
+export const setRecurringExpensePaused = async (groupId: string, recurringId: string, paused: boolean): Promise<void> => {
+  const recurringRef = doc(db, 'groups', groupId, 'recurringExpenses', recurringId);
+  await runTransaction(db, async (transaction) => {
+    const recurringSnap = await transaction.get(recurringRef);
+    if (!recurringSnap.exists()) {
+      throw new Error('Recurring expense not found');
+    }
+    const recurring = toRecurringExpense(recurringSnap);
+    transaction.update(
+      recurringRef,
+      paused ? { paused } : { paused, nextIndex: getFirstOccurrenceOnOrAfter(recurring, new Date(), recurring.nextIndex) }
+    );
+  });
+};
+
+// Incremented in place, so a stale copy of the schedule can't skip the wrong one
+export const skipNextOccurrence = async (groupId: string, recurringId: string): Promise<void> => {
+  const recurringRef = doc(db, 'groups', groupId, 'recurringExpenses', recurringId);
+  await updateDoc(recurringRef, { nextIndex: increment(1) });
+};
+
+// Expenses already created from the schedule are kept
+export const deleteRecurringExpense = async (groupId: string, recurringId: string): Promise<void> => {
+  const recurringRef = doc(db, 'groups', groupId, 'recurringExpenses', recurringId);
+  await deleteDoc(recurringRef);
+};
+
+/**
+ * Creates every occurrence of the group's recurring expenses that has come due.
+ * Occurrences get deterministic document IDs and are written in a transaction
+ * that also advances the schedule, so members opening the group at the same
+ * time never create the same occurrence twice. Returns how many were created.
+ */
+export const materializeRecurringExpenses = async (groupId: string, userId: string): Promise<number> => {
+  // Schedules pause while the group is archived and catch up once it's reopened
+  const group = await getGroup(groupId);
+  if (group?.archived) return 0;
+
+  const snapshot = await getDocs(collection(db, 'groups', groupId, 'recurringExpenses'));
+  let created = 0;
+
+  for (const recurringSnap of snapshot.docs) {
+    const recurring = toRecurringExpense(recurringSnap);
+    if (getDueOccurrences(recurring).length === 0) continue;
+
+    const creator = await getUser(recurring.createdBy);
+
+    created += await runTransaction(db, async (transaction) => {
+      const freshSnap = await transaction.get(recurringSnap.ref);
+      if (!freshSnap.exists()) return 0;
+
+      const fresh = toRecurringExpense(freshSnap);
+      const occurrences = getDueOccurrences(fresh).map((index) => {
+        const date = getOccurrenceDate(fresh, index);
+        const occurrenceId = `${fresh.id}_${getOccurrenceKey(date)}`;
+        return {
+          date,
+          expenseRef: doc(db, 'expenses', occurrenceId),
+          activityRef: doc(db, 'activities', occurrenceId),
+        };
+      });
+      if (occurrences.length === 0) return 0;
+
+      // All reads have to happen before any write in a transaction
+      const existing = await Promise.all(occurrences.map((occurrence) => transaction.get(occurrence.expenseRef)));
+
+      let count = 0;
+      occurrences.forEach((occurrence, i) => {
+        // Occurrences that fell due in a period closed since are skipped
+        if (existing[i].exists() || isInClosedPeriod(occurrence.date, group?.currentPeriodStart)) return;
+
+        transaction.set(occurrence.expenseRef, removeUnusedSplitFields({
+          groupId: fresh.groupId,
+          title: fresh.title,
+          ...(fresh.category && { category: fresh.category }),
+          amount: fresh.amount,
+          currency: fresh.currency || group?.baseCurrency || DEFAULT_CURRENCY,
+          exchangeRate: fresh.exchangeRate || 1,
+          paidBy: fresh.paidBy,
+          payers: fresh.payers,
+          sharedWith: fresh.sharedWith,
+          splitType: fresh.splitType || 'equal',
+          ...(fresh.splits && { splits: fresh.splits }),
+          ...(fresh.items && { items: fresh.items }),
+          ...(fresh.tax !== undefined && { tax: fresh.tax }),
+          ...(fresh.tip !== undefined && { tip: fresh.tip }),
+          recurringExpenseId: fresh.id,
+          createdBy: userId,
+          date: Timestamp.fromDate(occurrence.date),
+          createdAt: Timestamp.now(),
+        }));
+        transaction.set(occurrence.activityRef, {
+          groupId: fresh.groupId,
+          type: 'recurring_expense_added',
+          message: `added recurring expense "${fresh.title}" for ${formatMoney(fresh.amount, fresh.currency)} (${occurrence.date.toLocaleDateString()})`,
+          userId: fresh.createdBy,
+          userName: creator?.name || 'Someone',
+          createdAt: Timestamp.now(),
+        });
+        count++;
+      });
+
+      transaction.update(recurringSnap.ref, { nextIndex: fresh.nextIndex + occurrences.length });
+      return count;
+    });
+  }
+
+  return created;
+};
+
+// Budget operations (stored in a subcollection of the group)
+export const subscribeToBudgets = (groupId: string, callback: (budgets: Budget[]) => void) => {
+  const budgetsRef = collection(db, 'groups', groupId, 'budgets');
+  const q = query(budgetsRef, orderBy('startDate', 'desc'));
+  return onSnapshot(
+    q,
+    (snapshot) => {
+      const budgets = snapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+        startDate: doc.data().startDate?.toDate() || new Date(),
+        endDate: doc.data().endDate?.toDate() || new Date(),
+        createdAt: doc.data().createdAt?.toDate() || new Date(),
+      })) as Budget[];
+      callback(budgets);
+    },
+    (error) => {
+      console.error('Error subscribing to budgets:', error);
+      callback([]);
+    }
+  );
+};
+
+const validateBudget = (budget: Partial<Pick<Budget, 'name' | 'amount' | 'startDate' | 'endDate'>>) => {
+  if (budget.name !== undefined && !budget.name.trim()) {
+    throw new Error('Budget name is required');
+  }
+  if (budget.amount !== undefined && !(budget.amount > 0)) {
+    throw new Error('Budget amount must be greater than 0');
+  }
+  if (budget.startDate && budget.endDate && budget.endDate < budget.startDate) {
+    throw new Error('Budget end date must be on or after the start date');
+  }
+};
+
+export const createBudget = async (
+  budgetData: Omit<Budget, 'id' | 'createdAt' | 'alertLevel'>
+): Promise<string> => {
+  if (!budgetData.groupId || !budgetData.createdBy) {
+    throw new Error('Group ID and creator ID are required');
+  }
+  validateBudget(budgetData);
+
+  const budgetDoc: { [field: string]: unknown } = {
+    ...budgetData,
+    startDate: Timestamp.fromDate(budgetData.startDate),
+    endDate: Timestamp.fromDate(budgetData.endDate),
+    alertLevel: 0,
+    createdAt: Timestamp.now(),
+  };
+  if (!budgetData.category) {
+    delete budgetDoc.category;
+  }
+
+  const budgetsRef = collection(db, 'groups', budgetData.groupId, 'budgets');
+  const docRef = await addDoc(budgetsRef, budgetDoc);
+  return docRef.id;
+};
+
+// Changing what a budget covers re-arms its alerts; they fire again once the
+// new spending figure is checked
+export const updateBudget = async (
+  groupId: string,
+  budgetId: string,
+  updates: Partial<Pick<Budget, 'name' | 'category' | 'amount' | 'startDate' | 'endDate'>>
+): Promise<void> => {
+  validateBudget(updates);
+
+  const budgetRef = doc(db, 'groups', groupId, 'budgets', budgetId);
+  await updateDoc(budgetRef, {
+    ...updates,
+    ...('category' in updates && { category: updates.category || deleteField() }),
+    ...(updates.startDate && { startDate: Timestamp.fromDate(updates.startDate) }),
+    ...(updates.endDate && { endDate: Timestamp.fromDate(updates.endDate) }),
+    alertLevel: 0,
+  });
+};
+
+export const deleteBudget = async (groupId: string, budgetId: string): Promise<void> => {
+  const budgetRef = doc(db, 'groups', groupId, 'budgets', budgetId);
+  await deleteDoc(budgetRef);
+};
+
+/**
+ * Records the threshold a budget's spending has reached. Crossing a higher
+ * threshold logs an activity and returns true so the caller can warn the user;
+ * dropping back below one (after an expense is edited or deleted) quietly
+ * lowers the level so the alert can fire again. Runs in a transaction so each
+ * crossing is announced once even when several members have the group open.
+ */
+export const syncBudgetAlertLevel = async (
+  budget: Budget,
+  level: number,
+  message: string,
+  userId: string,
+  userName: string
+): Promise<boolean> => {
+  const budgetRef = doc(db, 'groups', budget.groupId, 'budgets', budget.id);
+
+  return runTransaction(db, async (transaction) => {
+    const budgetSnap = await transaction.get(budgetRef);
+    if (!budgetSnap.exists()) return false;
+
+    const currentLevel: number = budgetSnap.data().alertLevel || 0;
+    if (level === currentLevel) return false;
+
+    transaction.update(budgetRef, { alertLevel: level });
+    if (level < currentLevel) return false;
+
+    transaction.set(doc(collection(db, 'activities')), {
+      groupId: budget.groupId,
+      type: 'budget_alert',
+      message,
+      userId,
+      userName,
+      createdAt: Timestamp.now(),
+    });
+    return true;
+  });
+};
+
+// Cross-group balances
+// Watches every group the user belongs to, along with each group's full ledger
+// (no result limit, unlike the per-group views), and reports the user's
+// balances with each person and the totals per group whenever anything changes.
+export const subscribeToFriendBalances = (userId: string, callback: (summary: FriendBalanceSummary) => void) => {
+  const ledgers: Map<string, GroupLedger> = new Map();
+  const ledgerUnsubscribes: Map<string, () => void> = new Map();
+
+  const emit = () => callback(summarizeFriendBalances(userId, Array.from(ledgers.values())));
+
+  const watchLedger = (groupId: string) => {
+    const onError = (error: Error) => {
+      console.error(`Error subscribing to ledger for group ${groupId}:`, error);
+    };
+
+    const unsubscribeExpenses = onSnapshot(
+      query(collection(db, 'expenses'), where('groupId', '==', groupId)),
+      (snapshot) => {
+        const ledger = ledgers.get(groupId);
+        if (!ledger) return;
+        ledger.expenses = snapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+          ...toLedgerDates(doc.data()),
+        })) as Expense[];
+        emit();
+      },
+      onError
+    );
+
+    const unsubscribePayments = onSnapshot(
+      query(collection(db, 'payments'), where('groupId', '==', groupId)),
+      (snapshot) => {
+        const ledger = ledgers.get(groupId);
+        if (!ledger) return;
+        ledger.payments = snapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+          ...toLedgerDates(doc.data()),
+        })) as Payment[];
+        emit();
+      },
+      onError
+    );
+
+    const unsubscribeExchangeRates = subscribeToExchangeRates(groupId, (rates) => {
+      const ledger = ledgers.get(groupId);
+      if (!ledger) return;
+      ledger.exchangeRates = rates;
+      emit();
+    });
+
+    const unsubscribeCheckpoints = subscribeToBalanceCheckpoints(groupId, (checkpoints) => {
+      const ledger = ledgers.get(groupId);
+      if (!ledger) return;
+      ledger.checkpoint = getLatestCheckpoint(checkpoints);
+      emit();
+    });
+
+    return () => {
+      unsubscribeExpenses();
+      unsubscribePayments();
+      unsubscribeExchangeRates();
+      unsubscribeCheckpoints();
+    };
+  };
+
+  const unsubscribeGroups = subscribeToGroups(userId, (groups) => {
+    const groupIds = new Set(groups.map((group) => group.id));
+
+    ledgers.forEach((_, groupId) => {
+      if (!groupIds.has(groupId)) {
+        ledgerUnsubscribes.get(groupId)?.();
+        ledgerUnsubscribes.delete(groupId);
+        ledgers.delete(groupId);
+      }
+    });
+
+    groups.forEach((group) => {
+      const ledger = ledgers.get(group.id);
+      if (ledger) {
+        ledger.group = group;
+      } else {
+        ledgers.set(group.id, { group, expenses: [], payments: [], exchangeRates: [] });
+        ledgerUnsubscribes.set(group.id, watchLedger(group.id));
+      }
+    });
+
+    emit();
+  });
+
+  return () => {
+    unsubscribeGroups();
+    ledgerUnsubscribes.forEach((unsubscribe) => unsubscribe());
+    ledgerUnsubscribes.clear();
+  };
+};
@@ -21,18 +21,143 @@ export interface Group {
   members: string[]; // User UIDs (keeping for backward compatibility)
   membersDetail?: { [userId: string]: GroupMember }; // Enhanced member details
   joinCode?: string; // 6-character join code
+  baseCurrency?: string; // ISO 4217 code balances are settled in, defaults to USD
+  simplifyDebts?: boolean; // Show the minimized settlement plan instead of pairwise debts
+  customCategories?: string[]; // Expense categories added by the group, on top of the built-in ones
+  archived?: GroupArchive; // Set while the group is archived and its ledger is frozen
+  currentPeriodStart?: Date; // End of the latest closed period; entries dated before it can't be changed
+  formerMembers?: { [userId: string]: FormerMember }; // People who left or were removed, so their past entries keep a name
+  datesBackfilled?: boolean; // Every expense and payment has a date; unset on groups from before entries had one
   createdAt: Date;
 }
 
+export interface FormerMember {
+  uid: string;
+  name: string;
+  email: string;
+  leftAt: Date;
+  removedBy?: string; // Admin UID; unset when they left on their own
+}
+
+export interface GroupArchive {
+  archivedAt: Date;
+  archivedBy: string; // User UID
+  writtenOff?: Balance[]; // Debts still open when the group was archived, which members agreed to forgive
+}
+
+export type SplitType = 'equal' | 'exact' | 'percentage' | 'shares' | 'itemized';
+
+export interface ExpenseItem {
+  name: string;
+  amount: number;
+  assignedTo: string[]; // User UIDs sharing this line item equally
+}
+
+export interface Receipt {
+  id: string;
+  path: string; // Storage path of the downscaled image
+  thumbnailPath: string; // Storage path of the small preview shown on the expense card
+}
+
 export interface Expense {
   id: string;
   groupId: string;
   title: string;
+  notes?: string;
+  category?: string; // Built-in category id or custom category name, defaults to 'other'
   amount: number;
-  paidBy: string; // User UID
+  currency?: string; // ISO 4217 code, defaults to the group's base currency
+  exchangeRate?: number; // Base currency units per unit of `currency` at entry time
+  paidBy: string; // User UID (the largest contributor when several people paid)
+  payers?: { [userId: string]: number }; // Amount each person paid, only set when more than one person paid
   sharedWith: string[]; // User UIDs
+  splitType?: SplitType; // Missing on older expenses, which are split equally
+  splits?: { [userId: string]: number }; // Per-member amount, percentage or share count, depending on splitType
+  items?: ExpenseItem[]; // Line items for itemized splits
+  tax?: number; // Itemized only, distributed in proportion to each member's subtotal
+  tip?: number; // Itemized only, distributed like tax
+  recurringExpenseId?: string; // Set on occurrences created from a recurring expense
+  receipts?: Receipt[]; // Photos stored under receipts/{groupId}/{expenseId}/
+  date: Date; // When the expense happened; falls back to createdAt on older expenses
+  createdAt: Date; // When the expense was entered
+  createdBy: string;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export interface RecurringExpense {
+  id: string;
+  groupId: string;
+  // Each occurrence copies these fields into a new Expense
+  title: string;
+  category?: string;
+  amount: number;
+  currency?: string;
+  exchangeRate?: number;
+  paidBy: string;
+  payers?: { [userId: string]: number };
+  sharedWith: string[];
+  splitType?: SplitType;
+  splits?: { [userId: string]: number };
+  items?: ExpenseItem[];
+  tax?: number;
+  tip?: number;
+  frequency: RecurrenceFrequency;
+  intervalDays?: number; // Custom schedules only: days between occurrences
+  startDate: Date; // Date of the first occurrence; later dates are counted from it
+  nextIndex: number; // Number of the next occurrence to create, 0 being startDate
+  endDate?: Date; // No occurrences are created after this date
+  paused: boolean;
+  createdBy: string;
   createdAt: Date;
+}
+
+export interface ExchangeRate {
+  id: string;
+  groupId: string;
+  fromCurrency: string; // ISO 4217 code being converted
+  toCurrency: string; // ISO 4217 code being converted into
+  rate: number; // toCurrency units per fromCurrency unit
+  effectiveDate: Date; // Applies to expenses and payments on or after this date
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface Budget {
+  id: string;
+  groupId: string;
+  name: string;
+  category?: string; // Only expenses in this category count; all expenses count when unset
+  amount: number; // In the group's base currency
+  startDate: Date;
+  endDate: Date; // Inclusive
+  alertLevel: number; // Highest threshold percentage already announced (0, 80 or 100)
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface BalanceCheckpoint {
+  id: string;
+  groupId: string;
+  name: string;
+  startDate?: Date; // The previous checkpoint's endDate; unset for the group's first period
+  endDate: Date; // Exclusive: expenses and payments dated before it are part of the checkpoint
+  balances: Balance[]; // Pairwise balances in the base currency at endDate, where the next period starts
+  baseCurrency: string;
+  expenseCount: number; // Expenses and payments dated within the period
+  paymentCount: number;
   createdBy: string;
+  createdAt: Date;
+}
+
+export interface Comment {
+  id: string;
+  expenseId: string;
+  groupId: string; // Copied from the expense so a group's comments can be queried together
+  text: string;
+  authorId: string;
+  authorName: string;
+  createdAt: Date;
 }
 
 export interface Balance {
@@ -44,7 +169,7 @@ export interface Balance {
 export interface Activity {
   id: string;
   groupId: string;
-  type: 'expense_added' | 'member_added' | 'group_created';
+  type: 'expense_added' | 'member_added' | 'group_created' | 'recurring_expense_added' | 'budget_alert' | 'comment_added' | 'group_archived' | 'group_unarchived' | 'period_closed' | 'member_removed';
   message: string;
   userId: string;
   userName: string;
@@ -74,9 +199,12 @@ export interface Payment {
   from: string; // User UID who paid
   to: string; // User UID who received
   amount: number;
+  currency?: string; // ISO 4217 code, defaults to the group's base currency
+  exchangeRate?: number; // Base currency units per unit of `currency` at entry time
   paymentMethod: 'cash' | 'zelle' | 'venmo' | 'paypal' | 'other';
   note?: string;
+  date: Date; // When the payment was made; falls back to createdAt on older payments
   createdBy: string; // User UID who recorded the payment
-  createdAt: Date;
+  createdAt: Date; // When the payment was recorded
 }
 
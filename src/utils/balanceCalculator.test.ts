@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import type { Balance, Expense, Payment } from '../types';
+import { calculateBalances, getNetBalances, minimizeTransactions } from './balanceCalculator';
+
+const day = new Date('2024-03-01T12:00:00');
+
+const expense = (fields: Partial<Expense>): Expense => ({
+  id: 'e1',
+  groupId: 'g',
+  title: 'Dinner',
+  amount: 30,
+  paidBy: 'a',
+  sharedWith: ['a', 'b', 'c'],
+  date: day,
+  createdAt: day,
+  createdBy: 'a',
+  ...fields,
+});
+
+const payment = (fields: Partial<Payment>): Payment => ({
+  id: 'p1',
+  groupId: 'g',
+  from: 'b',
+  to: 'a',
+  amount: 10,
+  paymentMethod: 'cash',
+  date: day,
+  createdAt: day,
+  createdBy: 'b',
+  ...fields,
+});
+
+// Balances as "from owes to" keys, so tests don't depend on the order they come back in
+const byPair = (balances: Balance[]) =>
+  Object.fromEntries(balances.map((balance) => [`${balance.from}->${balance.to}`, balance.amount]));
+
+const netTotal = (balances: Balance[], baseCurrency?: string) =>
+  Array.from(getNetBalances(balances, baseCurrency).values()).reduce((sum, units) => sum + units, 0);
+
+describe('calculateBalances', () => {
+  it('has everyone owe the payer their share', () => {
+    expect(byPair(calculateBalances([expense({})]))).toEqual({ 'b->a': 10, 'c->a': 10 });
+  });
+
+  it('nets debts in both directions between the same pair', () => {
+    const balances = calculateBalances([
+      expense({ id: 'e1', amount: 30 }),
+      expense({ id: 'e2', amount: 12, paidBy: 'b', sharedWith: ['a', 'b'] }),
+    ]);
+    expect(byPair(balances)).toEqual({ 'b->a': 4, 'c->a': 10 });
+  });
+
+  it('keeps the leftover penny where allocateCents puts it', () => {
+    expect(byPair(calculateBalances([expense({ amount: 10, paidBy: 'c' })]))).toEqual({ 'a->c': 3.34, 'b->c': 3.33 });
+  });
+
+  it('reduces balances with payments and drops settled pairs', () => {
+    const balances = calculateBalances([expense({})], [payment({ amount: 10 }), payment({ id: 'p2', from: 'c', amount: 4 })]);
+    expect(byPair(balances)).toEqual({ 'c->a': 6 });
+  });
+
+  it('spreads each share across several payers by what they paid', () => {
+    const balances = calculateBalances([
+      expense({ amount: 90, paidBy: 'b', payers: { a: 30, b: 60 }, sharedWith: ['a', 'b', 'c'] }),
+    ]);
+    // c owes 30 split 1:2 between a and b; a owes b 20 of their 30 share and paid 10 of their own
+    expect(byPair(balances)).toEqual({ 'a->b': 10, 'c->a': 10, 'c->b': 20 });
+  });
+
+  it('converts foreign expenses and payments at their recorded rate', () => {
+    const balances = calculateBalances(
+      [expense({ amount: 3000, currency: 'JPY', exchangeRate: 0.01 })],
+      [payment({ amount: 500, currency: 'JPY', exchangeRate: 0.01 })],
+      { baseCurrency: 'USD' }
+    );
+    expect(byPair(balances)).toEqual({ 'b->a': 5, 'c->a': 10 });
+  });
+
+  it('reports balances in a zero-decimal base currency', () => {
+    const balances = calculateBalances([expense({ amount: 1000, currency: 'JPY' })], [], { baseCurrency: 'JPY' });
+    expect(byPair(balances)).toEqual({ 'b->a': 333, 'c->a': 333 });
+  });
+
+  it('always nets to zero across the group', () => {
+    const balances = calculateBalances(
+      [
+        expense({ id: 'e1', amount: 100.01, sharedWith: ['a', 'b', 'c', 'd'] }),
+        expense({ id: 'e2', amount: 47.77, paidBy: 'd', splitType: 'shares', splits: { a: 1, c: 2, d: 4 }, sharedWith: ['a', 'c', 'd'] }),
+        expense({ id: 'e3', amount: 19.99, paidBy: 'c', payers: { b: 6.66, c: 13.33 }, sharedWith: ['a', 'b'] }),
+        expense({
+          id: 'e4',
+          amount: 33.33,
+          paidBy: 'b',
+          splitType: 'itemized',
+          items: [{ name: 'Wine', amount: 25, assignedTo: ['a', 'c', 'd'] }],
+          tax: 2.5,
+          tip: 5.83,
+          sharedWith: ['a', 'c', 'd'],
+        }),
+      ],
+      [payment({ amount: 7.5 }), payment({ id: 'p2', from: 'd', to: 'c', amount: 3.21 })]
+    );
+    expect(balances.length).toBeGreaterThan(0);
+    expect(netTotal(balances)).toBe(0);
+  });
+
+  it('starts from a checkpoint and skips what it already counts', () => {
+    const checkpoint = { balances: [{ from: 'c', to: 'b', amount: 5 }], endDate: new Date('2024-02-01T00:00:00') };
+    const balances = calculateBalances(
+      [expense({ id: 'old', date: new Date('2024-01-15T12:00:00') }), expense({ id: 'new' })],
+      [],
+      { checkpoint }
+    );
+    expect(byPair(balances)).toEqual({ 'b->a': 10, 'c->a': 10, 'c->b': 5 });
+  });
+});
+
+describe('minimizeTransactions', () => {
+  const balances: Balance[] = [
+    { from: 'a', to: 'b', amount: 10 },
+    { from: 'b', to: 'c', amount: 10 },
+    { from: 'c', to: 'd', amount: 5 },
+    { from: 'a', to: 'd', amount: 2.5 },
+  ];
+
+  it('keeps everyone\'s net position', () => {
+    const settlements = minimizeTransactions(balances);
+    expect(Object.fromEntries(getNetBalances(settlements))).toEqual(
+      Object.fromEntries(Array.from(getNetBalances(balances)).filter(([, units]) => units !== 0))
+    );
+    expect(netTotal(settlements)).toBe(0);
+  });
+
+  it('needs fewer transfers than the pairwise balances', () => {
+    const settlements = minimizeTransactions(balances);
+    expect(byPair(settlements)).toEqual({ 'a->c': 5, 'a->d': 7.5 });
+  });
+
+  it('is the same whatever order the balances come in', () => {
+    expect(minimizeTransactions([...balances].reverse())).toEqual(minimizeTransactions(balances));
+  });
+
+  it('returns nothing when everyone is settled up', () => {
+    expect(minimizeTransactions([{ from: 'a', to: 'b', amount: 5 }, { from: 'b', to: 'a', amount: 5 }])).toEqual([]);
+  });
+
+  it('works in the base currency\'s minor units', () => {
+    const settlements = minimizeTransactions([{ from: 'a', to: 'b', amount: 0.001 }, { from: 'b', to: 'c', amount: 0.002 }], 'KWD');
+    expect(byPair(settlements)).toEqual({ 'b->c': 0.001, 'a->c': 0.001 });
+  });
+});
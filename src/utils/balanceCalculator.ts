@@ -1,49 +1,123 @@
-import type { Expense, Balance, Settlement, Payment } from '../types';
+import type { Expense, Balance, BalanceCheckpoint, Settlement, Payment } from '../types';
+import { getExpenseShareCents, getExpensePayerCents } from './splitCalculator';
+import { allocateCents, toMinorUnits, fromMinorUnits, DEFAULT_CURRENCY } from './money';
 
-export const calculateBalances = (expenses: Expense[], payments: Payment[] = []): Balance[] => {
+// All ledger math below is done in integer minor units of the group's base
+// currency so per-person shares always add up to the expense total and no
+// rounding drift accumulates across expenses.
+
+export interface BalanceOptions {
+  baseCurrency?: string; // Currency balances are reported in, defaults to USD
+  // Start from a closed period's balances; expenses and payments dated before
+  // its endDate are already counted there and are skipped
+  checkpoint?: Pick<BalanceCheckpoint, 'balances' | 'endDate'>;
+}
+
+// Whether a closed period already counts an expense or payment
+const isBeforeCheckpoint = (item: { date: Date }, options: BalanceOptions) =>
+  !!options.checkpoint && item.date < options.checkpoint.endDate;
+
+/**
+ * Converts an expense or payment amount to minor units of the base currency
+ * using the exchange rate recorded when it was entered
+ */
+export const toBaseUnits = (
+  amount: number,
+  item: Pick<Expense, 'currency' | 'exchangeRate'>,
+  baseCurrency: string = DEFAULT_CURRENCY
+): number => {
+  const rate = !item.currency || item.currency === baseCurrency ? 1 : item.exchangeRate || 1;
+  return toMinorUnits(amount * rate, baseCurrency);
+};
+
+/**
+ * Calls back with every debt an expense creates, in base currency minor units
+ */
+const forEachExpenseDebt = (
+  expense: Expense,
+  baseCurrency: string,
+  callback: (from: string, to: string, owed: number) => void
+) => {
+  // Shares and payer contributions are resolved in the expense's own currency,
+  // then used as weights to spread the converted total exactly
+  const baseTotal = toBaseUnits(expense.amount, expense, baseCurrency);
+  const shares = allocateCents(baseTotal, getExpenseShareCents(expense, baseCurrency));
+  const payerCents = allocateCents(baseTotal, getExpensePayerCents(expense, baseCurrency));
+
+  shares.forEach((share, memberId) => {
+    // Each participant owes their share to the payers in proportion to what they paid
+    allocateCents(share, payerCents).forEach((owed, payerId) => {
+      if (memberId === payerId || owed === 0) return;
+      callback(memberId, payerId, owed);
+    });
+  });
+};
+
+/**
+ * How an expense moves each member's net position, in base currency minor
+ * units: positive for what they are owed, negative for what they owe. Built
+ * from the same debts calculateBalances records, so it rounds the same way.
+ */
+export const getExpenseNetUnits = (expense: Expense, baseCurrency: string = DEFAULT_CURRENCY): Map<string, number> => {
+  const netUnits = new Map<string, number>();
+  forEachExpenseDebt(expense, baseCurrency, (from, to, owed) => {
+    netUnits.set(from, (netUnits.get(from) || 0) - owed);
+    netUnits.set(to, (netUnits.get(to) || 0) + owed);
+  });
+  return netUnits;
+};
+
+export const calculateBalances = (
+  expenses: Expense[],
+  payments: Payment[] = [],
+  options: BalanceOptions = {}
+): Balance[] => {
+  const baseCurrency = options.baseCurrency || DEFAULT_CURRENCY;
   const netBalances: Map<string, number> = new Map();
 
+  options.checkpoint?.balances.forEach((balance) => {
+    const key = balance.from < balance.to ? `${balance.from}-${balance.to}` : `${balance.to}-${balance.from}`;
+    const cents = toMinorUnits(balance.amount, baseCurrency);
+    netBalances.set(key, (netBalances.get(key) || 0) + (balance.from < balance.to ? cents : -cents));
+  });
+
   expenses.forEach((expense) => {
-    const amountPerPerson = expense.amount / expense.sharedWith.length;
-
-    expense.sharedWith.forEach((memberId) => {
-      if (memberId !== expense.paidBy) {
-        const from = memberId;
-        const to = expense.paidBy;
-        const key = from < to ? `${from}-${to}` : `${to}-${from}`;
-        const currentBalance = netBalances.get(key) || 0;
-        
-        if (from < to) {
-          netBalances.set(key, currentBalance + amountPerPerson);
-        } else {
-          netBalances.set(key, currentBalance - amountPerPerson);
-        }
+    if (isBeforeCheckpoint(expense, options)) return;
+    forEachExpenseDebt(expense, baseCurrency, (from, to, owed) => {
+      const key = from < to ? `${from}-${to}` : `${to}-${from}`;
+      const currentBalance = netBalances.get(key) || 0;
+
+      if (from < to) {
+        netBalances.set(key, currentBalance + owed);
+      } else {
+        netBalances.set(key, currentBalance - owed);
       }
     });
   });
 
   payments.forEach((payment) => {
+    if (isBeforeCheckpoint(payment, options)) return;
     const from = payment.from;
     const to = payment.to;
     const key = from < to ? `${from}-${to}` : `${to}-${from}`;
     const currentBalance = netBalances.get(key) || 0;
-    
+    const amount = toBaseUnits(payment.amount, payment, baseCurrency);
+
     if (from < to) {
-      netBalances.set(key, currentBalance - payment.amount);
+      netBalances.set(key, currentBalance - amount);
     } else {
-      netBalances.set(key, currentBalance + payment.amount);
+      netBalances.set(key, currentBalance + amount);
     }
   });
 
   const result: Balance[] = [];
-  netBalances.forEach((amount, key) => {
-    const roundedAmount = Math.round(amount * 100) / 100;
-    if (Math.abs(roundedAmount) >= 0.01) {
+  netBalances.forEach((cents, key) => {
+    if (cents !== 0) {
       const [id1, id2] = key.split('-');
-      if (roundedAmount > 0) {
-        result.push({ from: id1, to: id2, amount: Math.abs(roundedAmount) });
+      if (cents > 0) {
+        result.push({ from: id1, to: id2, amount: fromMinorUnits(cents, baseCurrency) });
       } else {
-        result.push({ from: id2, to: id1, amount: Math.abs(roundedAmount) });
+        result.push({ from: id2, to: id1, amount: fromMinorUnits(-cents, baseCurrency) });
       }
     }
   });
@@ -51,27 +125,127 @@ export const calculateBalances = (expenses: Expense[], payments: Payment[] = [])
   return result;
 };
 
-export const minimizeTransactions = (balances: Balance[]): Settlement[] => {
+export type BalanceEntry =
+  | { type: 'checkpoint'; endDate: Date; amount: number } // Brought forward from a closed period
+  | { type: 'expense'; expense: Expense; amount: number }
+  | { type: 'payment'; payment: Payment; amount: number };
+
+export interface BalanceBreakdown {
+  from: string;
+  to: string;
+  amount: number; // Net amount `from` owes `to`; negative if `to` owes `from`
+  entries: BalanceEntry[]; // Signed the same way, oldest first
+}
+
+/**
+ * Lists every expense and payment that moves the balance between two members,
+ * with the amount each contributes. The entries add up to the same figure
+ * calculateBalances reports for the pair; with a checkpoint, what it carried
+ * over for the pair comes first as a single entry.
+ */
+export const explainBalance = (
+  expenses: Expense[],
+  payments: Payment[],
+  from: string,
+  to: string,
+  options: BalanceOptions = {}
+): BalanceBreakdown => {
+  const baseCurrency = options.baseCurrency || DEFAULT_CURRENCY;
+  const contributions: Array<{ entry: BalanceEntry; units: number; date: Date }> = [];
+
+  if (options.checkpoint) {
+    const { endDate } = options.checkpoint;
+    const units = options.checkpoint.balances.reduce((sum, balance) => {
+      const cents = toMinorUnits(balance.amount, baseCurrency);
+      if (balance.from === from && balance.to === to) return sum + cents;
+      if (balance.from === to && balance.to === from) return sum - cents;
+      return sum;
+    }, 0);
+    if (units !== 0) {
+      // Dated just before the period ends so it sorts ahead of everything after it
+      contributions.push({
+        entry: { type: 'checkpoint', endDate, amount: fromMinorUnits(units, baseCurrency) },
+        units,
+        date: new Date(endDate.getTime() - 1),
+      });
+    }
+  }
+
+  expenses.forEach((expense) => {
+    if (isBeforeCheckpoint(expense, options)) return;
+    let units = 0;
+    forEachExpenseDebt(expense, baseCurrency, (debtor, creditor, owed) => {
+      if (debtor === from && creditor === to) units += owed;
+      if (debtor === to && creditor === from) units -= owed;
+    });
+    if (units !== 0) {
+      contributions.push({
+        entry: { type: 'expense', expense, amount: fromMinorUnits(units, baseCurrency) },
+        units,
+        date: expense.date,
+      });
+    }
+  });
+
+  payments.forEach((payment) => {
+    if (isBeforeCheckpoint(payment, options)) return;
+    const paid = toBaseUnits(payment.amount, payment, baseCurrency);
+    const units = payment.from === from && payment.to === to ? -paid : payment.from === to && payment.to === from ? paid : 0;
+    if (units !== 0) {
+      contributions.push({
+        entry: { type: 'payment', payment, amount: fromMinorUnits(units, baseCurrency) },
+        units,
+        date: payment.date,
+      });
+    }
+  });
+
+  contributions.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const total = contributions.reduce((sum, contribution) => sum + contribution.units, 0);
+
+  return {
+    from,
+    to,
+    amount: fromMinorUnits(total, baseCurrency),
+    entries: contributions.map((contribution) => contribution.entry),
+  };
+};
+
+/**
+ * Collapses pairwise balances into each member's net position in minor units:
+ * positive if they are owed money overall, negative if they owe
+ */
+export const getNetBalances = (balances: Balance[], baseCurrency: string = DEFAULT_CURRENCY): Map<string, number> => {
   const netAmounts: Map<string, number> = new Map();
 
   balances.forEach((balance) => {
-    netAmounts.set(balance.from, (netAmounts.get(balance.from) || 0) - balance.amount);
-    netAmounts.set(balance.to, (netAmounts.get(balance.to) || 0) + balance.amount);
+    const cents = toMinorUnits(balance.amount, baseCurrency);
+    netAmounts.set(balance.from, (netAmounts.get(balance.from) || 0) - cents);
+    netAmounts.set(balance.to, (netAmounts.get(balance.to) || 0) + cents);
   });
 
+  return netAmounts;
+};
+
+export const minimizeTransactions = (balances: Balance[], baseCurrency: string = DEFAULT_CURRENCY): Settlement[] => {
+  const netAmounts = getNetBalances(balances, baseCurrency);
+
   const debtors: Array<{ id: string; amount: number }> = [];
   const creditors: Array<{ id: string; amount: number }> = [];
 
   netAmounts.forEach((amount, userId) => {
-    if (amount < -0.01) {
-      debtors.push({ id: userId, amount: Math.abs(amount) });
-    } else if (amount > 0.01) {
+    if (amount < 0) {
+      debtors.push({ id: userId, amount: -amount });
+    } else if (amount > 0) {
       creditors.push({ id: userId, amount });
     }
   });
 
-  debtors.sort((a, b) => b.amount - a.amount);
-  creditors.sort((a, b) => b.amount - a.amount);
+  // Sort by amount, then by UID so the plan is the same on every device
+  const byAmountThenId = (a: { id: string; amount: number }, b: { id: string; amount: number }) =>
+    b.amount - a.amount || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  debtors.sort(byAmountThenId);
+  creditors.sort(byAmountThenId);
 
   const settlements: Settlement[] = [];
   let debtorIndex = 0;
@@ -85,16 +259,44 @@ export const minimizeTransactions = (balances: Balance[]): Settlement[] => {
     settlements.push({
       from: debtor.id,
       to: creditor.id,
-      amount: parseFloat(amount.toFixed(2)),
+      amount: fromMinorUnits(amount, baseCurrency),
     });
 
     debtor.amount -= amount;
     creditor.amount -= amount;
 
-    if (debtor.amount < 0.01) debtorIndex++;
-    if (creditor.amount < 0.01) creditorIndex++;
+    if (debtor.amount === 0) debtorIndex++;
+    if (creditor.amount === 0) creditorIndex++;
   }
 
   return settlements;
 };
 
+export interface BalanceChange {
+  from: string;
+  to: string;
+  before: number; // What `from` owed `to` before; negative if `to` owed `from`
+  after: number; // What `from` owes `to` after; negative if `to` owes `from`
+}
+
+/**
+ * Lists the member pairs whose balance differs between two calculations
+ */
+export const compareBalances = (before: Balance[], after: Balance[]): BalanceChange[] => {
+  const pairs: Map<string, { from: string; to: string; before: number; after: number }> = new Map();
+
+  const record = (balances: Balance[], field: 'before' | 'after') => {
+    balances.forEach((balance) => {
+      const [from, to] = balance.from < balance.to ? [balance.from, balance.to] : [balance.to, balance.from];
+      const key = `${from}-${to}`;
+      const pair = pairs.get(key) || { from, to, before: 0, after: 0 };
+      pair[field] += from === balance.from ? balance.amount : -balance.amount;
+      pairs.set(key, pair);
+    });
+  };
+
+  record(before, 'before');
+  record(after, 'after');
+
+  return Array.from(pairs.values()).filter((pair) => toMinorUnits(pair.before) !== toMinorUnits(pair.after));
+};
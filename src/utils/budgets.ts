@@ -0,0 +1,46 @@
+import type { Budget, Expense } from '../types';
+import { toBaseUnits } from './balanceCalculator';
+import { toMinorUnits, fromMinorUnits, DEFAULT_CURRENCY } from './money';
+import { DEFAULT_CATEGORY } from './categories';
+
+// Percentages of a budget that trigger an alert when spending reaches them
+export const BUDGET_THRESHOLDS = [80, 100];
+
+/**
+ * Whether an expense counts toward a budget: it falls within the budget's
+ * dates and, for category budgets, is in that category
+ */
+export const countsTowardBudget = (budget: Budget, expense: Expense): boolean => {
+  if (expense.date < budget.startDate || expense.date > budget.endDate) return false;
+  return !budget.category || (expense.category || DEFAULT_CATEGORY) === budget.category;
+};
+
+/**
+ * Total spent against a budget, in the base currency. Spending is always
+ * recalculated from the current expenses, so edited and deleted expenses are
+ * reflected straight away.
+ */
+export const getBudgetSpending = (
+  budget: Budget,
+  expenses: Expense[],
+  baseCurrency: string = DEFAULT_CURRENCY
+): number => {
+  const units = expenses
+    .filter((expense) => countsTowardBudget(budget, expense))
+    .reduce((sum, expense) => sum + toBaseUnits(expense.amount, expense, baseCurrency), 0);
+  return fromMinorUnits(units, baseCurrency);
+};
+
+/**
+ * Highest threshold the spending has reached, or 0 below the first one
+ */
+export const getBudgetAlertLevel = (spent: number, amount: number, baseCurrency: string = DEFAULT_CURRENCY): number => {
+  if (amount <= 0) return 0;
+  // Compared in minor units so 80% of $100.00 is reached at exactly $80.00
+  const spentCents = toMinorUnits(spent, baseCurrency);
+  const amountCents = toMinorUnits(amount, baseCurrency);
+  return BUDGET_THRESHOLDS.reduce(
+    (level, threshold) => (spentCents * 100 >= amountCents * threshold ? threshold : level),
+    0
+  );
+};
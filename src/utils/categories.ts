@@ -0,0 +1,96 @@
+import type { Expense, Group } from '../types';
+import { getExpenseShareCents } from './splitCalculator';
+import { toBaseUnits } from './balanceCalculator';
+import { allocateCents, fromMinorUnits, DEFAULT_CURRENCY } from './money';
+
+export interface Category {
+  id: string;
+  label: string;
+  icon: string;
+}
+
+export const DEFAULT_CATEGORY = 'other';
+
+export const BUILT_IN_CATEGORIES: Category[] = [
+  { id: 'food', label: 'Food & Drink', icon: '🍽️' },
+  { id: 'groceries', label: 'Groceries', icon: '🛒' },
+  { id: 'rent', label: 'Rent', icon: '🏠' },
+  { id: 'utilities', label: 'Utilities', icon: '💡' },
+  { id: 'transport', label: 'Transport', icon: '🚗' },
+  { id: 'travel', label: 'Travel', icon: '✈️' },
+  { id: 'entertainment', label: 'Entertainment', icon: '🎬' },
+  { id: 'shopping', label: 'Shopping', icon: '🛍️' },
+  { id: 'health', label: 'Health', icon: '💊' },
+  { id: DEFAULT_CATEGORY, label: 'Other', icon: '📦' },
+];
+
+/**
+ * Built-in categories followed by the group's custom ones. Custom categories
+ * are stored by name, so their id and label are the same.
+ */
+export const getGroupCategories = (group: Pick<Group, 'customCategories'> | null): Category[] => [
+  ...BUILT_IN_CATEGORIES,
+  ...(group?.customCategories || []).map((name) => ({ id: name, label: name, icon: '🏷️' })),
+];
+
+/**
+ * Looks up an expense's category. Expenses without one count as Other, and a
+ * custom category removed from the group still shows under its name.
+ */
+export const getCategory = (categories: Category[], categoryId: string = DEFAULT_CATEGORY): Category => {
+  return categories.find((category) => category.id === categoryId) || { id: categoryId, label: categoryId, icon: '🏷️' };
+};
+
+export interface CategorySpending {
+  category: string;
+  total: number;
+  byMember: { [userId: string]: number }; // Each member's share of the category's spending
+  byMonth: { [month: string]: number }; // Keyed by YYYY-MM
+}
+
+// YYYY-MM for the month a date falls in, in local time
+export const getMonthKey = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Totals spending per category in the base currency, broken down by each
+ * member's share and by month. Categories are sorted by total, largest first.
+ */
+export const getCategoryBreakdown = (
+  expenses: Expense[],
+  baseCurrency: string = DEFAULT_CURRENCY
+): CategorySpending[] => {
+  const totals: Map<string, { total: number; byMember: Map<string, number>; byMonth: Map<string, number> }> = new Map();
+
+  expenses.forEach((expense) => {
+    const categoryId = expense.category || DEFAULT_CATEGORY;
+    const entry = totals.get(categoryId) || { total: 0, byMember: new Map(), byMonth: new Map() };
+    const baseTotal = toBaseUnits(expense.amount, expense, baseCurrency);
+    const month = getMonthKey(expense.date);
+
+    entry.total += baseTotal;
+    entry.byMonth.set(month, (entry.byMonth.get(month) || 0) + baseTotal);
+    allocateCents(baseTotal, getExpenseShareCents(expense, baseCurrency)).forEach((share, memberId) => {
+      entry.byMember.set(memberId, (entry.byMember.get(memberId) || 0) + share);
+    });
+    totals.set(categoryId, entry);
+  });
+
+  const toAmounts = (units: Map<string, number>) => {
+    const amounts: { [key: string]: number } = {};
+    units.forEach((value, key) => {
+      amounts[key] = fromMinorUnits(value, baseCurrency);
+    });
+    return amounts;
+  };
+
+  return Array.from(totals.entries())
+    .sort(([a, x], [b, y]) => y.total - x.total || a.localeCompare(b))
+    .map(([category, entry]) => ({
+      category,
+      total: fromMinorUnits(entry.total, baseCurrency),
+      byMember: toAmounts(entry.byMember),
+      byMonth: toAmounts(entry.byMonth),
+    }));
+};
@@ -0,0 +1,93 @@
+export type CsvValue = string | number | null | undefined;
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Escapes a single CSV field (RFC 4180): fields containing a comma, quote or
+ * line break are quoted, with quotes doubled. Text starting with =, +, - or @
+ * is prefixed with an apostrophe so spreadsheets don't evaluate it as a
+ * formula; plain numbers are left alone.
+ */
+export const escapeCsvField = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  let field = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(field) && !NUMBER_PATTERN.test(field)) {
+    field = `'${field}`;
+  }
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+export const toCsv = (rows: CsvValue[][]): string => {
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields with doubled
+ * quotes and line breaks, CRLF or LF line endings and a leading byte order
+ * mark. Blank lines come back as a row with a single empty field.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Saves CSV text as a file. The byte order mark makes Excel read the file as
+ * UTF-8, so names with accents and currency symbols survive.
+ */
+export const downloadCsv = (fileName: string, csv: string): void => {
+  saveBlob(fileName, new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+};
+
+// Offers a blob to the browser as a file download
+export const saveBlob = (fileName: string, blob: Blob): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Turns a group name into something safe to use in a file name
+export const toFileNamePart = (name: string): string => {
+  return name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'group';
+};
@@ -0,0 +1,9 @@
+/**
+ * Formats a date as YYYY-MM-DD in local time, the value a date input expects
+ * and the form dates take in file names and exports
+ */
+export const toDateInput = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
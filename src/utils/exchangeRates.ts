@@ -0,0 +1,53 @@
+import type { ExchangeRate } from '../types';
+
+type ConvertibleItem = { currency?: string; exchangeRate?: number; date: Date };
+
+/**
+ * Finds the rate to convert `fromCurrency` into `toCurrency` on a given date,
+ * using the most recent table entry effective on or before that date.
+ * Entries for the reverse pair are inverted. Returns null if none applies.
+ */
+export const findEffectiveRate = (
+  rates: ExchangeRate[],
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date
+): number | null => {
+  if (fromCurrency === toCurrency) return 1;
+
+  let latestRate: number | null = null;
+  let latestDate = -Infinity;
+  for (const entry of rates) {
+    const effective = entry.effectiveDate.getTime();
+    if (effective > date.getTime() || effective < latestDate || entry.rate <= 0) continue;
+
+    if (entry.fromCurrency === fromCurrency && entry.toCurrency === toCurrency) {
+      latestRate = entry.rate;
+      latestDate = effective;
+    } else if (entry.fromCurrency === toCurrency && entry.toCurrency === fromCurrency) {
+      latestRate = 1 / entry.rate;
+      latestDate = effective;
+    }
+  }
+
+  return latestRate;
+};
+
+/**
+ * Returns the items with their exchange rate replaced by the group's rate
+ * table wherever an entry is effective on the item's date. Items without a
+ * matching entry keep the rate recorded when they were entered.
+ */
+export const applyExchangeRates = <T extends ConvertibleItem>(
+  items: T[],
+  rates: ExchangeRate[],
+  baseCurrency: string
+): T[] => {
+  if (rates.length === 0) return items;
+
+  return items.map((item) => {
+    if (!item.currency || item.currency === baseCurrency) return item;
+    const rate = findEffectiveRate(rates, item.currency, baseCurrency, item.date);
+    return rate === null ? item : { ...item, exchangeRate: rate };
+  });
+};
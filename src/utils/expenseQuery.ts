@@ -0,0 +1,153 @@
+import type { Expense, ExchangeRate } from '../types';
+import { getExpenseShareCents } from './splitCalculator';
+import { toBaseUnits } from './balanceCalculator';
+import { applyExchangeRates } from './exchangeRates';
+import { toMinorUnits, DEFAULT_CURRENCY } from './money';
+import { DEFAULT_CATEGORY } from './categories';
+
+export type ExpenseSort = 'newest' | 'oldest' | 'amount-desc' | 'amount-asc' | 'title';
+
+export const EXPENSE_SORT_LABELS: Record<ExpenseSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  'amount-desc': 'Highest amount',
+  'amount-asc': 'Lowest amount',
+  title: 'Title (A–Z)',
+};
+
+export interface ExpenseQuery {
+  search?: string; // Matched against title and notes, case-insensitively
+  paidBy?: string; // User UID of a payer
+  participant?: string; // User UID of someone with a share
+  minAmount?: number; // In the base currency, inclusive
+  maxAmount?: number;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  category?: string;
+  sort?: ExpenseSort; // Defaults to newest
+}
+
+// URL query string parameter for each field, so filtered views can be shared
+const PARAM_NAMES: Record<keyof ExpenseQuery, string> = {
+  search: 'q',
+  paidBy: 'paidBy',
+  participant: 'participant',
+  minAmount: 'min',
+  maxAmount: 'max',
+  from: 'from',
+  to: 'to',
+  category: 'category',
+  sort: 'sort',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads an expense query from URL search params. Missing or malformed
+ * values are left out.
+ */
+export const parseExpenseQuery = (params: URLSearchParams): ExpenseQuery => {
+  const query: ExpenseQuery = {};
+  const text = (field: keyof ExpenseQuery) => params.get(PARAM_NAMES[field])?.trim() || undefined;
+  const amount = (field: keyof ExpenseQuery) => {
+    const value = parseFloat(params.get(PARAM_NAMES[field]) || '');
+    return isNaN(value) || value < 0 ? undefined : value;
+  };
+  const date = (field: keyof ExpenseQuery) => {
+    const value = text(field);
+    return value && DATE_PATTERN.test(value) ? value : undefined;
+  };
+
+  query.search = text('search');
+  query.paidBy = text('paidBy');
+  query.participant = text('participant');
+  query.minAmount = amount('minAmount');
+  query.maxAmount = amount('maxAmount');
+  query.from = date('from');
+  query.to = date('to');
+  query.category = text('category');
+  const sort = text('sort');
+  query.sort = sort && sort in EXPENSE_SORT_LABELS ? (sort as ExpenseSort) : undefined;
+
+  (Object.keys(query) as Array<keyof ExpenseQuery>).forEach((field) => {
+    if (query[field] === undefined) delete query[field];
+  });
+  return query;
+};
+
+/**
+ * Writes an expense query into a copy of the given search params, leaving
+ * parameters that aren't part of the query untouched.
+ */
+export const writeExpenseQuery = (params: URLSearchParams, query: ExpenseQuery): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  (Object.keys(PARAM_NAMES) as Array<keyof ExpenseQuery>).forEach((field) => {
+    const value = query[field];
+    if (value === undefined || value === '' || (field === 'sort' && value === 'newest')) {
+      next.delete(PARAM_NAMES[field]);
+    } else {
+      next.set(PARAM_NAMES[field], String(value));
+    }
+  });
+  return next;
+};
+
+// Whether the query narrows the list; sorting alone doesn't count
+export const hasExpenseFilters = (query: ExpenseQuery): boolean => {
+  return (Object.keys(query) as Array<keyof ExpenseQuery>).some((field) => field !== 'sort' && query[field] !== undefined);
+};
+
+// Whether a date falls within the query's date range, if it has one
+export const isInQueryDateRange = (date: Date, query: Pick<ExpenseQuery, 'from' | 'to'>): boolean => {
+  if (query.from && date < new Date(`${query.from}T00:00:00`)) return false;
+  if (query.to && date > new Date(`${query.to}T23:59:59.999`)) return false;
+  return true;
+};
+
+/**
+ * Filters and sorts expenses. Amount limits apply to the base currency value,
+ * using the group's rate table where an entry is effective. Returns a new
+ * array; the input order only breaks ties.
+ */
+export const queryExpenses = (
+  expenses: Expense[],
+  query: ExpenseQuery,
+  baseCurrency: string = DEFAULT_CURRENCY,
+  exchangeRates: ExchangeRate[] = []
+): Expense[] => {
+  const rated = applyExchangeRates(expenses, exchangeRates, baseCurrency);
+  const baseUnits = new Map(expenses.map((expense, i) => [expense.id, toBaseUnits(expense.amount, rated[i], baseCurrency)]));
+  const search = query.search?.toLowerCase();
+  const minUnits = query.minAmount !== undefined ? toMinorUnits(query.minAmount, baseCurrency) : undefined;
+  const maxUnits = query.maxAmount !== undefined ? toMinorUnits(query.maxAmount, baseCurrency) : undefined;
+
+  const matches = expenses.filter((expense) => {
+    if (search && !`${expense.title}\n${expense.notes || ''}`.toLowerCase().includes(search)) return false;
+    if (query.paidBy && expense.paidBy !== query.paidBy && !(expense.payers && query.paidBy in expense.payers)) return false;
+    if (query.participant && !(getExpenseShareCents(expense, baseCurrency).get(query.participant) || 0)) return false;
+    if (query.category && (expense.category || DEFAULT_CATEGORY) !== query.category) return false;
+    if (!isInQueryDateRange(expense.date, query)) return false;
+
+    const units = baseUnits.get(expense.id) || 0;
+    if (minUnits !== undefined && units < minUnits) return false;
+    if (maxUnits !== undefined && units > maxUnits) return false;
+    return true;
+  });
+
+  const byDate = (a: Expense, b: Expense) =>
+    a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime();
+  const byAmount = (a: Expense, b: Expense) => (baseUnits.get(a.id) || 0) - (baseUnits.get(b.id) || 0);
+
+  switch (query.sort) {
+    case 'oldest':
+      return matches.sort(byDate);
+    case 'amount-desc':
+      return matches.sort((a, b) => byAmount(b, a) || byDate(b, a));
+    case 'amount-asc':
+      return matches.sort((a, b) => byAmount(a, b) || byDate(b, a));
+    case 'title':
+      return matches.sort((a, b) => a.title.localeCompare(b.title) || byDate(b, a));
+    default:
+      return matches.sort((a, b) => byDate(b, a));
+  }
+};
@@ -0,0 +1,86 @@
+import type { Group, Expense, Payment, ExchangeRate, BalanceCheckpoint } from '../types';
+import { calculateBalances, minimizeTransactions } from './balanceCalculator';
+import { applyExchangeRates } from './exchangeRates';
+import { toMinorUnits, fromMinorUnits, DEFAULT_CURRENCY } from './money';
+
+export interface GroupLedger {
+  group: Group;
+  expenses: Expense[];
+  payments: Payment[];
+  exchangeRates: ExchangeRate[];
+  checkpoint?: BalanceCheckpoint; // Where the group's open period starts
+}
+
+export interface GroupBalanceTotals {
+  currency: string; // The group's base currency
+  owed: number; // What others in the group owe the user
+  owing: number; // What the user owes others in the group
+}
+
+export interface FriendGroupBalance {
+  groupId: string;
+  groupName: string;
+  currency: string;
+  amount: number; // Positive if the friend owes the user, negative if the user owes the friend
+}
+
+export interface FriendBalance {
+  friendId: string;
+  totals: { [currency: string]: number }; // Net across groups, signed like FriendGroupBalance.amount
+  groups: FriendGroupBalance[];
+}
+
+export interface FriendBalanceSummary {
+  friends: FriendBalance[];
+  groups: { [groupId: string]: GroupBalanceTotals };
+}
+
+/**
+ * Nets the user's balances with each person across every group they share.
+ * Groups can settle in different currencies, so totals are kept per currency
+ * rather than converted. Groups that simplify debts contribute their
+ * minimized plan, matching what their Balances tab shows. Archived groups
+ * are left out.
+ */
+export const summarizeFriendBalances = (userId: string, ledgers: GroupLedger[]): FriendBalanceSummary => {
+  const friends: Map<string, FriendBalance> = new Map();
+  const groups: { [groupId: string]: GroupBalanceTotals } = {};
+
+  ledgers.forEach(({ group, expenses, payments, exchangeRates, checkpoint }) => {
+    // Archived groups are closed out; anything still open there was written off
+    if (group.archived) return;
+
+    const baseCurrency = group.baseCurrency || DEFAULT_CURRENCY;
+    const balances = calculateBalances(
+      applyExchangeRates(expenses, exchangeRates, baseCurrency),
+      applyExchangeRates(payments, exchangeRates, baseCurrency),
+      { baseCurrency, checkpoint }
+    );
+    const displayed = group.simplifyDebts ? minimizeTransactions(balances, baseCurrency) : balances;
+
+    const totals: GroupBalanceTotals = { currency: baseCurrency, owed: 0, owing: 0 };
+    displayed.forEach((balance) => {
+      if (balance.from !== userId && balance.to !== userId) return;
+
+      const friendId = balance.from === userId ? balance.to : balance.from;
+      const amount = balance.from === userId ? -balance.amount : balance.amount;
+      if (amount > 0) {
+        totals.owed += amount;
+      } else {
+        totals.owing -= amount;
+      }
+
+      const friend = friends.get(friendId) || { friendId, totals: {}, groups: [] };
+      const current = toMinorUnits(friend.totals[baseCurrency] || 0, baseCurrency);
+      friend.totals[baseCurrency] = fromMinorUnits(current + toMinorUnits(amount, baseCurrency), baseCurrency);
+      friend.groups.push({ groupId: group.id, groupName: group.name, currency: baseCurrency, amount });
+      friends.set(friendId, friend);
+    });
+
+    totals.owed = fromMinorUnits(toMinorUnits(totals.owed, baseCurrency), baseCurrency);
+    totals.owing = fromMinorUnits(toMinorUnits(totals.owing, baseCurrency), baseCurrency);
+    groups[group.id] = totals;
+  });
+
+  return { friends: Array.from(friends.values()), groups };
+};
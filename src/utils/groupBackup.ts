@@ -0,0 +1,362 @@
+import type { Activity, Expense, ExpenseItem, FormerMember, Group, GroupMember, Payment, SplitType } from '../types';
+import { validatePayers, validateSplit } from './splitCalculator';
+
+export const BACKUP_FORMAT = 'evensteven-group-backup';
+
+// Bump when the format changes in a way older restores can't read, and teach
+// parseGroupBackup to upgrade the older versions it still accepts
+export const BACKUP_SCHEMA_VERSION = 1;
+
+// Receipts and recurring schedules live outside the backed-up documents, so
+// expenses are backed up without the fields that point at them
+export type BackupExpense = Omit<Expense, 'receipts' | 'recurringExpenseId'>;
+
+export interface GroupBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: Date;
+  group: Omit<Group, 'joinCode'>;
+  expenses: BackupExpense[];
+  payments: Payment[];
+  activities: Activity[];
+}
+
+/**
+ * Builds a backup of a group and its ledger. Dates become ISO strings when
+ * the backup is turned into JSON.
+ */
+export const createGroupBackup = (
+  group: Group,
+  expenses: Expense[],
+  payments: Payment[],
+  activities: Activity[]
+): GroupBackup => {
+  const groupData: Group = { ...group };
+  delete groupData.joinCode;
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date(),
+    group: groupData,
+    expenses: expenses.map((expense) => {
+      const copy: Expense = { ...expense };
+      delete copy.receipts;
+      delete copy.recurringExpenseId;
+      return copy;
+    }),
+    payments,
+    activities,
+  };
+};
+
+// Validation helpers; each returns the value in its expected type or throws
+// naming the offending field
+type JsonObject = Record<string, unknown>;
+
+const fail = (path: string, problem: string): never => {
+  throw new Error(`Invalid backup: ${path} ${problem}`);
+};
+
+const readObject = (value: unknown, path: string): JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonObject) : fail(path, 'must be an object');
+
+const readArray = (value: unknown, path: string): unknown[] => (Array.isArray(value) ? value : fail(path, 'must be a list'));
+
+const readString = (value: unknown, path: string): string =>
+  typeof value === 'string' && value !== '' ? value : fail(path, 'must be a non-empty string');
+
+const readNumber = (value: unknown, path: string): number =>
+  typeof value === 'number' && isFinite(value) ? value : fail(path, 'must be a number');
+
+const readBoolean = (value: unknown, path: string): boolean => (typeof value === 'boolean' ? value : fail(path, 'must be true or false'));
+
+const readDate = (value: unknown, path: string): Date => {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : fail(path, 'must be an ISO date');
+};
+
+const readStringList = (value: unknown, path: string): string[] =>
+  readArray(value, path).map((item, i) => readString(item, `${path}[${i}]`));
+
+const readNumberMap = (value: unknown, path: string): { [key: string]: number } => {
+  const map: { [key: string]: number } = {};
+  Object.entries(readObject(value, path)).forEach(([key, item]) => {
+    map[key] = readNumber(item, `${path}.${key}`);
+  });
+  return map;
+};
+
+// Missing and null both mean the optional field isn't set
+const readOptional = <T>(value: unknown, path: string, read: (value: unknown, path: string) => T): T | undefined =>
+  value === undefined || value === null ? undefined : read(value, path);
+
+const SPLIT_TYPES: SplitType[] = ['equal', 'exact', 'percentage', 'shares', 'itemized'];
+const PAYMENT_METHODS: Array<Payment['paymentMethod']> = ['cash', 'zelle', 'venmo', 'paypal', 'other'];
+const ACTIVITY_TYPES: Array<Activity['type']> = [
+  'expense_added',
+  'member_added',
+  'group_created',
+  'recurring_expense_added',
+  'budget_alert',
+  'comment_added',
+  'group_archived',
+  'group_unarchived',
+  'period_closed',
+  'member_removed',
+];
+
+const readOneOf = <T extends string>(options: T[]) => (value: unknown, path: string): T =>
+  options.includes(value as T) ? (value as T) : fail(path, `must be one of ${options.join(', ')}`);
+
+const readMember = (value: unknown, path: string): GroupMember => {
+  const member = readObject(value, path);
+  return {
+    uid: readString(member.uid, `${path}.uid`),
+    name: readString(member.name, `${path}.name`),
+    email: typeof member.email === 'string' ? member.email : '',
+    role: readOneOf<GroupMember['role']>(['admin', 'member'])(member.role, `${path}.role`),
+    joinedAt: readDate(member.joinedAt, `${path}.joinedAt`),
+  };
+};
+
+const readFormerMember = (value: unknown, path: string): FormerMember => {
+  const member = readObject(value, path);
+  return {
+    uid: readString(member.uid, `${path}.uid`),
+    name: readString(member.name, `${path}.name`),
+    email: typeof member.email === 'string' ? member.email : '',
+    leftAt: readDate(member.leftAt, `${path}.leftAt`),
+    removedBy: readOptional(member.removedBy, `${path}.removedBy`, readString),
+  };
+};
+
+const readGroup = (value: unknown, path: string): GroupBackup['group'] => {
+  const group = readObject(value, path);
+  const membersDetail: { [userId: string]: GroupMember } = {};
+  Object.entries(readOptional(group.membersDetail, `${path}.membersDetail`, readObject) || {}).forEach(([memberId, member]) => {
+    membersDetail[memberId] = readMember(member, `${path}.membersDetail.${memberId}`);
+    if (membersDetail[memberId].uid !== memberId) fail(`${path}.membersDetail.${memberId}.uid`, 'must match its key');
+  });
+  const formerMembers: { [userId: string]: FormerMember } = {};
+  Object.entries(readOptional(group.formerMembers, `${path}.formerMembers`, readObject) || {}).forEach(([memberId, member]) => {
+    formerMembers[memberId] = readFormerMember(member, `${path}.formerMembers.${memberId}`);
+    if (formerMembers[memberId].uid !== memberId) fail(`${path}.formerMembers.${memberId}.uid`, 'must match its key');
+  });
+
+  return {
+    id: readString(group.id, `${path}.id`),
+    name: readString(group.name, `${path}.name`),
+    createdBy: readString(group.createdBy, `${path}.createdBy`),
+    members: readStringList(group.members, `${path}.members`),
+    membersDetail,
+    formerMembers,
+    baseCurrency: readOptional(group.baseCurrency, `${path}.baseCurrency`, readString),
+    simplifyDebts: readOptional(group.simplifyDebts, `${path}.simplifyDebts`, readBoolean),
+    customCategories: readOptional(group.customCategories, `${path}.customCategories`, readStringList),
+    createdAt: readDate(group.createdAt, `${path}.createdAt`),
+  };
+};
+
+const readItem = (value: unknown, path: string): ExpenseItem => {
+  const item = readObject(value, path);
+  return {
+    name: readString(item.name, `${path}.name`),
+    amount: readNumber(item.amount, `${path}.amount`),
+    assignedTo: readStringList(item.assignedTo, `${path}.assignedTo`),
+  };
+};
+
+const readExpense = (value: unknown, path: string): BackupExpense => {
+  const expense = readObject(value, path);
+  const parsed: BackupExpense = {
+    id: readString(expense.id, `${path}.id`),
+    groupId: readString(expense.groupId, `${path}.groupId`),
+    title: readString(expense.title, `${path}.title`),
+    notes: readOptional(expense.notes, `${path}.notes`, readString),
+    category: readOptional(expense.category, `${path}.category`, readString),
+    amount: readNumber(expense.amount, `${path}.amount`),
+    currency: readOptional(expense.currency, `${path}.currency`, readString),
+    exchangeRate: readOptional(expense.exchangeRate, `${path}.exchangeRate`, readNumber),
+    paidBy: readString(expense.paidBy, `${path}.paidBy`),
+    payers: readOptional(expense.payers, `${path}.payers`, readNumberMap),
+    sharedWith: readStringList(expense.sharedWith, `${path}.sharedWith`),
+    splitType: readOptional(expense.splitType, `${path}.splitType`, readOneOf(SPLIT_TYPES)),
+    splits: readOptional(expense.splits, `${path}.splits`, readNumberMap),
+    items: readOptional(expense.items, `${path}.items`, (items, itemsPath) =>
+      readArray(items, itemsPath).map((item, i) => readItem(item, `${itemsPath}[${i}]`))
+    ),
+    tax: readOptional(expense.tax, `${path}.tax`, readNumber),
+    tip: readOptional(expense.tip, `${path}.tip`, readNumber),
+    date: readDate(expense.date, `${path}.date`),
+    createdAt: readDate(expense.createdAt, `${path}.createdAt`),
+    createdBy: readString(expense.createdBy, `${path}.createdBy`),
+  };
+
+  if (!(parsed.amount > 0)) fail(`${path}.amount`, 'must be greater than 0');
+  if (parsed.exchangeRate !== undefined && !(parsed.exchangeRate > 0)) fail(`${path}.exchangeRate`, 'must be greater than 0');
+  const splitError = validateSplit(parsed) || validatePayers(parsed);
+  if (splitError) fail(path, `has an invalid split: ${splitError}`);
+  return parsed;
+};
+
+const readPayment = (value: unknown, path: string): Payment => {
+  const payment = readObject(value, path);
+  const parsed: Payment = {
+    id: readString(payment.id, `${path}.id`),
+    groupId: readString(payment.groupId, `${path}.groupId`),
+    from: readString(payment.from, `${path}.from`),
+    to: readString(payment.to, `${path}.to`),
+    amount: readNumber(payment.amount, `${path}.amount`),
+    currency: readOptional(payment.currency, `${path}.currency`, readString),
+    exchangeRate: readOptional(payment.exchangeRate, `${path}.exchangeRate`, readNumber),
+    paymentMethod: readOneOf(PAYMENT_METHODS)(payment.paymentMethod, `${path}.paymentMethod`),
+    note: readOptional(payment.note, `${path}.note`, readString),
+    date: readDate(payment.date, `${path}.date`),
+    createdBy: readString(payment.createdBy, `${path}.createdBy`),
+    createdAt: readDate(payment.createdAt, `${path}.createdAt`),
+  };
+
+  if (!(parsed.amount > 0)) fail(`${path}.amount`, 'must be greater than 0');
+  if (parsed.from === parsed.to) fail(path, 'is from and to the same person');
+  if (parsed.exchangeRate !== undefined && !(parsed.exchangeRate > 0)) fail(`${path}.exchangeRate`, 'must be greater than 0');
+  return parsed;
+};
+
+const readActivity = (value: unknown, path: string): Activity => {
+  const activity = readObject(value, path);
+  return {
+    id: readString(activity.id, `${path}.id`),
+    groupId: readString(activity.groupId, `${path}.groupId`),
+    type: readOneOf(ACTIVITY_TYPES)(activity.type, `${path}.type`),
+    message: readString(activity.message, `${path}.message`),
+    userId: readString(activity.userId, `${path}.userId`),
+    userName: readString(activity.userName, `${path}.userName`),
+    createdAt: readDate(activity.createdAt, `${path}.createdAt`),
+  };
+};
+
+/**
+ * Reads and validates a backup file. Throws with the first problem found:
+ * a file that isn't a backup, a newer schema version, a malformed field or
+ * an expense whose split doesn't add up.
+ */
+export const parseGroupBackup = (text: string): GroupBackup => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const backup = readObject(json, 'backup');
+  if (backup.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a group backup');
+  }
+  const schemaVersion = readNumber(backup.schemaVersion, 'schemaVersion');
+  if (!Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    fail('schemaVersion', 'must be a positive whole number');
+  }
+  if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(`This backup uses schema version ${schemaVersion}, but this app only reads up to version ${BACKUP_SCHEMA_VERSION}. Update the app and try again.`);
+  }
+
+  const parsed: GroupBackup = {
+    format: BACKUP_FORMAT,
+    schemaVersion,
+    exportedAt: readDate(backup.exportedAt, 'exportedAt'),
+    group: readGroup(backup.group, 'group'),
+    expenses: readArray(backup.expenses, 'expenses').map((expense, i) => readExpense(expense, `expenses[${i}]`)),
+    payments: readArray(backup.payments, 'payments').map((payment, i) => readPayment(payment, `payments[${i}]`)),
+    activities: readArray(backup.activities, 'activities').map((activity, i) => readActivity(activity, `activities[${i}]`)),
+  };
+
+  const ids = new Set<string>();
+  [...parsed.expenses, ...parsed.payments].forEach((entry) => {
+    if (ids.has(entry.id)) fail(entry.id, 'appears more than once');
+    ids.add(entry.id);
+  });
+
+  return parsed;
+};
+
+/**
+ * Every user UID the backup refers to: members plus anyone named on an
+ * expense, payment or activity, in first-seen order
+ */
+export const getBackupMemberIds = (backup: Pick<GroupBackup, 'group' | 'expenses' | 'payments' | 'activities'>): string[] => {
+  const memberIds = new Set<string>([...backup.group.members, ...Object.keys(backup.group.membersDetail || {})]);
+  backup.expenses.forEach((expense) => {
+    [expense.paidBy, expense.createdBy, ...expense.sharedWith, ...Object.keys(expense.payers || {})].forEach((memberId) =>
+      memberIds.add(memberId)
+    );
+  });
+  backup.payments.forEach((payment) => {
+    [payment.from, payment.to, payment.createdBy].forEach((memberId) => memberIds.add(memberId));
+  });
+  backup.activities.forEach((activity) => memberIds.add(activity.userId));
+  return Array.from(memberIds);
+};
+
+/**
+ * Replaces member UIDs throughout a backup. Every UID the backup refers to
+ * must be mapped, and no two may map to the same new UID.
+ */
+export const remapGroupBackup = (backup: GroupBackup, uidMap: { [oldUid: string]: string }): GroupBackup => {
+  const memberIds = getBackupMemberIds(backup);
+  const unmapped = memberIds.filter((memberId) => !uidMap[memberId]);
+  if (unmapped.length > 0) {
+    throw new Error(`Choose who ${unmapped.length === 1 ? 'this person' : 'these people'} should be: ${unmapped.join(', ')}`);
+  }
+  const targets = memberIds.map((memberId) => uidMap[memberId]);
+  if (new Set(targets).size !== targets.length) {
+    throw new Error('Two people in the backup are matched to the same member');
+  }
+
+  const remap = (memberId: string) => uidMap[memberId];
+  const remapKeys = <T>(map: { [memberId: string]: T }) => {
+    const remapped: { [memberId: string]: T } = {};
+    Object.entries(map).forEach(([memberId, value]) => {
+      remapped[remap(memberId)] = value;
+    });
+    return remapped;
+  };
+
+  const membersDetail = remapKeys(backup.group.membersDetail || {});
+  Object.entries(membersDetail).forEach(([memberId, member]) => {
+    membersDetail[memberId] = { ...member, uid: memberId };
+  });
+  // Former members with nothing left in the ledger aren't asked about, so they're dropped
+  const formerMembers: { [userId: string]: FormerMember } = {};
+  Object.entries(backup.group.formerMembers || {}).forEach(([memberId, member]) => {
+    if (uidMap[memberId]) {
+      formerMembers[remap(memberId)] = { ...member, uid: remap(memberId), removedBy: member.removedBy && uidMap[member.removedBy] };
+    }
+  });
+
+  return {
+    ...backup,
+    group: {
+      ...backup.group,
+      createdBy: remap(backup.group.createdBy),
+      members: backup.group.members.map(remap),
+      membersDetail,
+      formerMembers,
+    },
+    expenses: backup.expenses.map((expense) => ({
+      ...expense,
+      paidBy: remap(expense.paidBy),
+      payers: expense.payers && remapKeys(expense.payers),
+      sharedWith: expense.sharedWith.map(remap),
+      splits: expense.splits && remapKeys(expense.splits),
+      items: expense.items?.map((item) => ({ ...item, assignedTo: item.assignedTo.map(remap) })),
+      createdBy: remap(expense.createdBy),
+    })),
+    payments: backup.payments.map((payment) => ({
+      ...payment,
+      from: remap(payment.from),
+      to: remap(payment.to),
+      createdBy: remap(payment.createdBy),
+    })),
+    activities: backup.activities.map((activity) => ({ ...activity, userId: remap(activity.userId) })),
+  };
+};
@@ -0,0 +1,32 @@
+// Longest side, in pixels, of stored receipt images and their thumbnails
+export const RECEIPT_MAX_DIMENSION = 1600;
+export const THUMBNAIL_MAX_DIMENSION = 240;
+
+/**
+ * Scales an image down so its longest side is at most `maxDimension` pixels
+ * and re-encodes it as JPEG. Smaller images keep their size but are still
+ * re-encoded, which also drops any embedded metadata such as location.
+ */
+export const downscaleImage = async (file: Blob, maxDimension: number, quality: number = 0.8): Promise<Blob> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Could not process image');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not process image'))),
+      'image/jpeg',
+      quality
+    );
+  });
+};
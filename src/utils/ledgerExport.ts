@@ -0,0 +1,130 @@
+import type { Balance, Expense, ExchangeRate, Payment, Settlement } from '../types';
+import type { CsvValue } from './csv';
+import { toCsv } from './csv';
+import { getExpenseShares, getExpensePayerCents } from './splitCalculator';
+import { toBaseUnits } from './balanceCalculator';
+import { applyExchangeRates } from './exchangeRates';
+import { getCategory } from './categories';
+import type { Category } from './categories';
+import { toDateInput } from './dates';
+import { formatAmount, fromMinorUnits } from './money';
+
+export interface LedgerExportOptions {
+  baseCurrency: string;
+  members: string[]; // One share column per member, in this order
+  categories: Category[];
+  exchangeRates: ExchangeRate[];
+  getMemberName: (memberId: string) => string;
+}
+
+const PAYMENT_METHOD_LABELS: Record<Payment['paymentMethod'], string> = {
+  cash: 'Cash',
+  zelle: 'Zelle',
+  venmo: 'Venmo',
+  paypal: 'PayPal',
+  other: 'Other',
+};
+
+/**
+ * Builds a CSV of expenses and payments in date order, oldest first. Each row
+ * has the amount in its own currency and in the base currency, plus one
+ * column per member with their share of the expense in its own currency.
+ */
+export const buildLedgerCsv = (expenses: Expense[], payments: Payment[], options: LedgerExportOptions): string => {
+  const { baseCurrency, members, categories, exchangeRates, getMemberName } = options;
+  const toBaseAmount = (units: number) => formatAmount(fromMinorUnits(units, baseCurrency), baseCurrency);
+
+  const header: CsvValue[] = [
+    'Date',
+    'Type',
+    'Title',
+    'Category',
+    'Amount',
+    'Currency',
+    `Amount (${baseCurrency})`,
+    'Paid by',
+    'Paid to',
+    'Method',
+    'Note',
+    ...members.map((memberId) => `${getMemberName(memberId)} share`),
+  ];
+
+  const rows: Array<{ date: Date; createdAt: Date; cells: CsvValue[] }> = [];
+
+  applyExchangeRates(expenses, exchangeRates, baseCurrency).forEach((expense) => {
+    const currency = expense.currency || baseCurrency;
+    const shares = getExpenseShares(expense, baseCurrency);
+    const payerCents = Array.from(getExpensePayerCents(expense, baseCurrency).entries());
+    const paidBy = payerCents.length > 1
+      ? payerCents.map(([payerId, cents]) => `${getMemberName(payerId)} (${formatAmount(fromMinorUnits(cents, currency), currency)})`).join('; ')
+      : getMemberName(expense.paidBy);
+
+    rows.push({
+      date: expense.date,
+      createdAt: expense.createdAt,
+      cells: [
+        toDateInput(expense.date),
+        'Expense',
+        expense.title,
+        getCategory(categories, expense.category).label,
+        formatAmount(expense.amount, currency),
+        currency,
+        toBaseAmount(toBaseUnits(expense.amount, expense, baseCurrency)),
+        paidBy,
+        '',
+        '',
+        expense.notes || '',
+        ...members.map((memberId) => (shares.has(memberId) ? formatAmount(shares.get(memberId) || 0, currency) : '')),
+      ],
+    });
+  });
+
+  applyExchangeRates(payments, exchangeRates, baseCurrency).forEach((payment) => {
+    const currency = payment.currency || baseCurrency;
+    rows.push({
+      date: payment.date,
+      createdAt: payment.createdAt,
+      cells: [
+        toDateInput(payment.date),
+        'Payment',
+        `${getMemberName(payment.from)} paid ${getMemberName(payment.to)}`,
+        '',
+        formatAmount(payment.amount, currency),
+        currency,
+        toBaseAmount(toBaseUnits(payment.amount, payment, baseCurrency)),
+        getMemberName(payment.from),
+        getMemberName(payment.to),
+        PAYMENT_METHOD_LABELS[payment.paymentMethod] || payment.paymentMethod,
+        payment.note || '',
+        ...members.map(() => ''),
+      ],
+    });
+  });
+
+  rows.sort((a, b) => a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+  return toCsv([header, ...rows.map((row) => row.cells)]);
+};
+
+/**
+ * Builds a CSV of the pairwise balances followed by the payments that would
+ * settle them, all in the base currency.
+ */
+export const buildBalancesCsv = (
+  balances: Balance[],
+  settlements: Settlement[],
+  baseCurrency: string,
+  getMemberName: (memberId: string) => string
+): string => {
+  const row = (section: string, entry: Balance | Settlement): CsvValue[] => [
+    section,
+    getMemberName(entry.from),
+    getMemberName(entry.to),
+    formatAmount(entry.amount, baseCurrency),
+  ];
+
+  return toCsv([
+    ['Section', 'From', 'To', `Amount (${baseCurrency})`],
+    ...balances.map((balance) => row('Owes', balance)),
+    ...settlements.map((settlement) => row('Settle up', settlement)),
+  ]);
+};
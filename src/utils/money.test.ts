@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { allocateCents, formatAmount, fromMinorUnits, getAmountStep, getMinorUnitDigits, toMinorUnits } from './money';
+
+const sum = (allocation: Map<string, number>) => Array.from(allocation.values()).reduce((total, cents) => total + cents, 0);
+
+describe('allocateCents', () => {
+  it('splits evenly when the total divides exactly', () => {
+    const allocation = allocateCents(900, new Map([['a', 1], ['b', 1], ['c', 1]]));
+    expect(Object.fromEntries(allocation)).toEqual({ a: 300, b: 300, c: 300 });
+  });
+
+  it('gives leftover pennies to the lowest UIDs when the remainders tie', () => {
+    const allocation = allocateCents(1000, new Map([['c', 1], ['a', 1], ['b', 1]]));
+    expect(Object.fromEntries(allocation)).toEqual({ a: 334, b: 333, c: 333 });
+
+    const twoLeft = allocateCents(1100, new Map([['c', 1], ['b', 1], ['a', 1]]));
+    expect(Object.fromEntries(twoLeft)).toEqual({ a: 367, b: 367, c: 366 });
+  });
+
+  it('gives leftover pennies to the largest remainders first', () => {
+    // Exact shares are 14.2857, 28.5714 and 57.1428 cents
+    const allocation = allocateCents(100, new Map([['a', 1], ['b', 2], ['c', 4]]));
+    expect(Object.fromEntries(allocation)).toEqual({ a: 14, b: 29, c: 57 });
+  });
+
+  it('does not depend on the order the weights were added in', () => {
+    const forwards = allocateCents(1001, new Map([['x', 3], ['y', 3], ['z', 1]]));
+    const backwards = allocateCents(1001, new Map([['z', 1], ['y', 3], ['x', 3]]));
+    expect(Object.fromEntries(forwards)).toEqual(Object.fromEntries(backwards));
+  });
+
+  it('always adds up to the total', () => {
+    const weights = new Map([['a', 0.3], ['b', 1.7], ['c', 2], ['d', 13]]);
+    [1, 7, 99, 1001, 123457].forEach((total) => {
+      expect(sum(allocateCents(total, weights))).toBe(total);
+    });
+  });
+
+  it('gives nothing to zero weights', () => {
+    const allocation = allocateCents(101, new Map([['a', 0], ['b', 1], ['c', 1]]));
+    expect(Object.fromEntries(allocation)).toEqual({ a: 0, b: 51, c: 50 });
+  });
+
+  it('allocates nothing when every weight is zero', () => {
+    const allocation = allocateCents(500, new Map([['a', 0], ['b', 0]]));
+    expect(Object.fromEntries(allocation)).toEqual({ a: 0, b: 0 });
+  });
+});
+
+describe('minor units', () => {
+  it('uses each currency\'s decimal places', () => {
+    expect(getMinorUnitDigits('USD')).toBe(2);
+    expect(getMinorUnitDigits('JPY')).toBe(0);
+    expect(getMinorUnitDigits('KWD')).toBe(3);
+  });
+
+  it('converts to and from minor units', () => {
+    expect(toMinorUnits(12.34)).toBe(1234);
+    expect(toMinorUnits(0.1 + 0.2, 'USD')).toBe(30);
+    expect(toMinorUnits(1200, 'JPY')).toBe(1200);
+    expect(toMinorUnits(1.005, 'KWD')).toBe(1005);
+    expect(fromMinorUnits(1005, 'KWD')).toBe(1.005);
+    expect(fromMinorUnits(1200, 'JPY')).toBe(1200);
+  });
+
+  it('formats plain amounts and input steps', () => {
+    expect(formatAmount(12.5)).toBe('12.50');
+    expect(formatAmount(1200, 'JPY')).toBe('1200');
+    expect(formatAmount(1.5, 'KWD')).toBe('1.500');
+    expect(getAmountStep('USD')).toBe('0.01');
+    expect(getAmountStep('JPY')).toBe('1');
+    expect(getAmountStep('KWD')).toBe('0.001');
+  });
+});
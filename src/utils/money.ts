@@ -0,0 +1,104 @@
+/**
+ * Splits a total (in cents) between members in proportion to their weights.
+ * Each member first gets the whole cents of their exact share; leftover pennies
+ * go one at a time to the largest fractional remainders, with ties broken by
+ * UID so the result is deterministic. The shares always add up to the total.
+ */
+export const allocateCents = (totalCents: number, weights: Map<string, number>): Map<string, number> => {
+  const allocation = new Map<string, number>();
+  const memberIds = Array.from(weights.keys()).sort();
+  const totalWeight = memberIds.reduce((sum, memberId) => sum + (weights.get(memberId) || 0), 0);
+
+  if (totalWeight <= 0) {
+    memberIds.forEach((memberId) => allocation.set(memberId, 0));
+    return allocation;
+  }
+
+  const remainders: Array<{ id: string; remainder: number }> = [];
+  let allocated = 0;
+
+  memberIds.forEach((memberId) => {
+    const exact = (totalCents * (weights.get(memberId) || 0)) / totalWeight;
+    const whole = Math.floor(exact);
+    allocation.set(memberId, whole);
+    allocated += whole;
+    remainders.push({ id: memberId, remainder: exact - whole });
+  });
+
+  remainders.sort((a, b) => b.remainder - a.remainder || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  let leftover = totalCents - allocated;
+  for (let i = 0; leftover > 0; i = (i + 1) % remainders.length) {
+    const memberId = remainders[i].id;
+    allocation.set(memberId, (allocation.get(memberId) || 0) + 1);
+    leftover--;
+  }
+
+  return allocation;
+};
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = [
+  'USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'JPY', 'CNY', 'INR',
+  'MXN', 'BRL', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'HUF', 'TRY', 'THB',
+  'SGD', 'HKD', 'KRW', 'ZAR', 'AED',
+];
+
+const minorUnitDigits = new Map<string, number>();
+
+/**
+ * Number of decimal places used by a currency (2 for USD, 0 for JPY)
+ */
+export const getMinorUnitDigits = (currency: string = DEFAULT_CURRENCY): number => {
+  let digits = minorUnitDigits.get(currency);
+  if (digits === undefined) {
+    try {
+      digits = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+      digits = 2;
+    }
+    minorUnitDigits.set(currency, digits);
+  }
+  return digits;
+};
+
+/**
+ * Converts a decimal amount to integer minor units of the given currency
+ */
+export const toMinorUnits = (amount: number, currency: string = DEFAULT_CURRENCY): number => {
+  return Math.round(amount * 10 ** getMinorUnitDigits(currency));
+};
+
+/**
+ * Converts integer minor units of the given currency back to a decimal amount
+ */
+export const fromMinorUnits = (units: number, currency: string = DEFAULT_CURRENCY): number => {
+  return units / 10 ** getMinorUnitDigits(currency);
+};
+
+/**
+ * Formats an amount with its currency's decimal places and no symbol, for
+ * form inputs and CSV cells, e.g. 12.50 or 1200
+ */
+export const formatAmount = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  return amount.toFixed(getMinorUnitDigits(currency));
+};
+
+/**
+ * The smallest amount a currency can express, for number input steps
+ */
+export const getAmountStep = (currency: string = DEFAULT_CURRENCY): string => {
+  return formatAmount(fromMinorUnits(1, currency), currency);
+};
+
+/**
+ * Formats an amount with its currency symbol, e.g. $12.50 or ¥1,200
+ */
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
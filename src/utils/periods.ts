@@ -0,0 +1,37 @@
+import type { BalanceCheckpoint, Expense, Payment } from '../types';
+
+// A period closed through a day ends at the start of the next one, local time
+export const getPeriodEndDate = (lastDay: Date): Date =>
+  new Date(lastDay.getFullYear(), lastDay.getMonth(), lastDay.getDate() + 1);
+
+// The last day a period covers, for showing its exclusive endDate
+export const getPeriodLastDay = (endDate: Date): Date => new Date(endDate.getTime() - 1);
+
+/**
+ * The checkpoint the open period starts from, if any period has been closed
+ */
+export const getLatestCheckpoint = (checkpoints: BalanceCheckpoint[]): BalanceCheckpoint | undefined =>
+  checkpoints.reduce<BalanceCheckpoint | undefined>(
+    (latest, checkpoint) => (!latest || checkpoint.endDate > latest.endDate ? checkpoint : latest),
+    undefined
+  );
+
+/**
+ * Whether a date falls in a closed period, given where the open period starts
+ */
+export const isInClosedPeriod = (date: Date, currentPeriodStart?: Date): boolean =>
+  !!currentPeriodStart && date < currentPeriodStart;
+
+/**
+ * The expenses and payments dated within a closed period, newest first as
+ * they were given
+ */
+export const getPeriodEntries = (
+  checkpoint: Pick<BalanceCheckpoint, 'startDate' | 'endDate'>,
+  expenses: Expense[],
+  payments: Payment[]
+): { expenses: Expense[]; payments: Payment[] } => {
+  const inPeriod = (item: { date: Date }) =>
+    item.date < checkpoint.endDate && (!checkpoint.startDate || item.date >= checkpoint.startDate);
+  return { expenses: expenses.filter(inPeriod), payments: payments.filter(inPeriod) };
+};
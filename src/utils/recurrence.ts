@@ -0,0 +1,90 @@
+import type { RecurringExpense, RecurrenceFrequency } from '../types';
+import { toDateInput } from './dates';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  custom: 'Custom',
+};
+
+// Caps how many missed occurrences are created in one go, e.g. for a group
+// nobody has opened in years
+export const MAX_OCCURRENCES_PER_RUN = 60;
+
+type Schedule = Pick<RecurringExpense, 'frequency' | 'intervalDays' | 'startDate'>;
+
+const addMonthsClamped = (date: Date, months: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const daysInMonth = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), daysInMonth));
+  return result;
+};
+
+/**
+ * Date of the nth occurrence of a schedule, 0 being the start date. Monthly and
+ * yearly schedules keep the start date's day, falling back to the last day of
+ * shorter months (a rent due on the 31st is due on the 30th in April).
+ */
+export const getOccurrenceDate = (schedule: Schedule, index: number): Date => {
+  const start = schedule.startDate;
+  switch (schedule.frequency) {
+    case 'weekly':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7 * index);
+    case 'monthly':
+      return addMonthsClamped(start, index);
+    case 'yearly':
+      return addMonthsClamped(start, 12 * index);
+    case 'custom':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + (schedule.intervalDays || 1) * index);
+  }
+};
+
+/**
+ * Date of the next occurrence that hasn't been created yet, or null once the
+ * schedule has passed its end date
+ */
+export const getNextOccurrenceDate = (recurring: RecurringExpense): Date | null => {
+  const date = getOccurrenceDate(recurring, recurring.nextIndex);
+  return recurring.endDate && date > recurring.endDate ? null : date;
+};
+
+/**
+ * First occurrence number from `fromIndex` on that falls on or after the day of
+ * `date`, for picking a schedule back up without the occurrences it missed
+ */
+export const getFirstOccurrenceOnOrAfter = (schedule: Schedule, date: Date, fromIndex = 0): number => {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  let index = fromIndex;
+  while (getOccurrenceDate(schedule, index) < day) index++;
+  return index;
+};
+
+/**
+ * Occurrence numbers that are due on or before `now` and haven't been created
+ */
+export const getDueOccurrences = (recurring: RecurringExpense, now: Date = new Date()): number[] => {
+  const due: number[] = [];
+  if (recurring.paused) return due;
+
+  for (let index = recurring.nextIndex; due.length < MAX_OCCURRENCES_PER_RUN; index++) {
+    const date = getOccurrenceDate(recurring, index);
+    if (date > now || (recurring.endDate && date > recurring.endDate)) break;
+    due.push(index);
+  }
+  return due;
+};
+
+/**
+ * Stable key for an occurrence, used to build document IDs so the same
+ * occurrence is never created twice
+ */
+export const getOccurrenceKey = (date: Date): string => toDateInput(date);
+
+export const describeSchedule = (recurring: Pick<RecurringExpense, 'frequency' | 'intervalDays'>): string => {
+  if (recurring.frequency === 'custom') {
+    const days = recurring.intervalDays || 1;
+    return `Every ${days} day${days !== 1 ? 's' : ''}`;
+  }
+  return FREQUENCY_LABELS[recurring.frequency];
+};
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { Balance, Settlement } from '../types';
+import { getNetBalances, minimizeTransactions } from './balanceCalculator';
+import { planSettlements } from './settlementPlanner';
+
+const owes = (from: string, to: string, amount: number): Balance => ({ from, to, amount });
+
+// What everyone is left with once the planned payments are made, in cents
+const afterSettling = (balances: Balance[], settlements: Settlement[]) => {
+  const net = getNetBalances(balances);
+  getNetBalances(settlements.map(({ from, to, amount }) => owes(to, from, amount))).forEach((units, memberId) => {
+    net.set(memberId, (net.get(memberId) || 0) + units);
+  });
+  return Array.from(net.values());
+};
+
+// Two groups that each settle among themselves: x and y, and p, q and r.
+// Matching the largest debt to the largest credit mixes them up and takes one payment more.
+const hiddenGroups = [owes('x', 'y', 5), owes('p', 'r', 4), owes('q', 'r', 3)];
+
+// Pairs that already net to zero on their own, to pad a group out
+const evenPairs = (count: number) =>
+  Array.from({ length: count }, (_, i) => owes(`d${i}`, `c${i}`, 1));
+
+describe('planSettlements', () => {
+  it('finds fewer transfers than greedy matching on a known instance', () => {
+    expect(minimizeTransactions(hiddenGroups)).toHaveLength(4);
+
+    const plan = planSettlements(hiddenGroups);
+    expect(plan.feasible).toBe(true);
+    expect(plan.settlements).toHaveLength(3);
+    expect(plan.settlements).toEqual(
+      expect.arrayContaining([
+        { from: 'x', to: 'y', amount: 5 },
+        { from: 'p', to: 'r', amount: 4 },
+        { from: 'q', to: 'r', amount: 3 },
+      ])
+    );
+  });
+
+  it('settles each zero-sum subset within itself', () => {
+    // a and b, and c and d, net to zero even though the debts cross between them
+    const plan = planSettlements([owes('a', 'd', 10), owes('c', 'b', 10), owes('c', 'd', 10)]);
+
+    expect(plan.settlements).toHaveLength(2);
+    expect(plan.settlements).toEqual(
+      expect.arrayContaining([
+        { from: 'a', to: 'b', amount: 10 },
+        { from: 'c', to: 'd', amount: 20 },
+      ])
+    );
+  });
+
+  it('needs no transfers when everyone is already even', () => {
+    const plan = planSettlements([owes('a', 'b', 10), owes('b', 'a', 10)]);
+
+    expect(plan).toEqual({ settlements: [], feasible: true, reason: undefined });
+  });
+
+  it('searches exactly up to 12 members with a balance', () => {
+    // 12 members with a balance, where greedy matching would take 8 transfers
+    const balances = [...hiddenGroups, ...evenPairs(2), owes('s', 'u', 2), owes('t', 'u', 1)];
+    expect(minimizeTransactions(balances)).toHaveLength(8);
+    expect(planSettlements(balances).settlements).toHaveLength(7);
+
+    // Two more who are already even make 14 members, but they're left out of the search
+    const withEvenMembers = [...balances, owes('e', 'z', 1), owes('z', 'e', 1)];
+    expect(planSettlements(withEvenMembers).settlements).toHaveLength(7);
+  });
+
+  it('falls back to greedy matching above 12 members with a balance', () => {
+    // 13 members: the exact plan would take 7 transfers
+    const balances = [...hiddenGroups, ...evenPairs(4)];
+
+    const plan = planSettlements(balances);
+    expect(plan.feasible).toBe(true);
+    expect(plan.settlements).toHaveLength(8);
+    expect(afterSettling(balances, plan.settlements).every((units) => units === 0)).toBe(true);
+  });
+
+  it('leaves every balance at zero', () => {
+    const cases: Array<[Balance[], Parameters<typeof planSettlements>[1]]> = [
+      [hiddenGroups, {}],
+      [[owes('a', 'b', 12.34), owes('b', 'c', 5.67), owes('d', 'a', 8.9), owes('c', 'e', 0.01)], {}],
+      [[owes('a', 'c', 30), owes('b', 'c', 20)], { forbiddenPairs: [['a', 'c']] }],
+      [[owes('a', 'b', 10), owes('c', 'd', 15)], { hub: 'a' }],
+      [[...hiddenGroups, ...evenPairs(4)], {}],
+    ];
+
+    cases.forEach(([balances, constraints]) => {
+      const plan = planSettlements(balances, constraints);
+      expect(plan.feasible).toBe(true);
+      expect(afterSettling(balances, plan.settlements).every((units) => units === 0)).toBe(true);
+    });
+  });
+
+  it('routes around a forbidden pair through another member', () => {
+    const plan = planSettlements([owes('a', 'c', 30), owes('b', 'c', 20)], { forbiddenPairs: [['a', 'c']] });
+
+    expect(plan.settlements.some(({ from, to }) => from === 'a' && to === 'c')).toBe(false);
+  });
+
+  it('reports when the forbidden pairs leave no way to settle', () => {
+    const plan = planSettlements([owes('a', 'b', 10)], { forbiddenPairs: [['a', 'b']] });
+
+    expect(plan.feasible).toBe(false);
+    expect(plan.settlements).toEqual([]);
+    expect(plan.reason).toBe('The forbidden pairs leave no way to settle every balance.');
+  });
+});
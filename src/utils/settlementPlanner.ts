@@ -0,0 +1,246 @@
+import type { Balance, Settlement } from '../types';
+import { getNetBalances } from './balanceCalculator';
+import { fromMinorUnits, DEFAULT_CURRENCY } from './money';
+
+export interface SettlementConstraints {
+  hub?: string; // Member who collects from every debtor and pays every creditor
+  forbiddenPairs?: Array<[string, string]>; // Members who shouldn't pay each other directly
+  maxTransfers?: number; // Most payments the plan may contain
+}
+
+export interface SettlementPlan {
+  settlements: Settlement[];
+  feasible: boolean;
+  reason?: string; // Why the constraints can't be met, when infeasible
+}
+
+interface Transfer {
+  from: string;
+  to: string;
+  units: number;
+}
+
+// The exact search is exponential in the number of members, so larger groups
+// fall back to a greedy matcher that still honours forbidden pairs
+const MAX_EXACT_MEMBERS = 12;
+
+const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const countBits = (mask: number): number => {
+  let count = 0;
+  for (let rest = mask; rest; rest &= rest - 1) count++;
+  return count;
+};
+
+const lowestBitIndex = (mask: number): number => 31 - Math.clz32(mask & -mask);
+
+/**
+ * Settles a zero-sum group along a spanning tree of allowed pairs: every member
+ * except the root settles their running balance with their parent, leaves first
+ */
+const settleGroup = (
+  group: string[],
+  net: Map<string, number>,
+  isAllowed: (a: string, b: string) => boolean
+): Transfer[] => {
+  const order = [group[0]];
+  const parent: Map<string, string> = new Map();
+
+  for (let i = 0; i < order.length; i++) {
+    group.forEach((memberId) => {
+      if (memberId !== group[0] && !parent.has(memberId) && isAllowed(order[i], memberId)) {
+        parent.set(memberId, order[i]);
+        order.push(memberId);
+      }
+    });
+  }
+
+  const remaining: Map<string, number> = new Map(group.map((memberId) => [memberId, net.get(memberId) || 0]));
+  const transfers: Transfer[] = [];
+
+  for (let i = order.length - 1; i > 0; i--) {
+    const memberId = order[i];
+    const parentId = parent.get(memberId) as string;
+    const units = remaining.get(memberId) || 0;
+
+    if (units < 0) {
+      transfers.push({ from: memberId, to: parentId, units: -units });
+    } else if (units > 0) {
+      transfers.push({ from: parentId, to: memberId, units });
+    }
+    remaining.set(parentId, (remaining.get(parentId) || 0) + units);
+  }
+
+  return transfers;
+};
+
+/**
+ * Largest-debtor/largest-creditor matching that skips forbidden pairs.
+ * Returns null if some balance can't be paid off this way.
+ */
+const planGreedy = (
+  net: Map<string, number>,
+  isAllowed: (a: string, b: string) => boolean
+): Transfer[] | null => {
+  const debtors: Array<{ id: string; amount: number }> = [];
+  const creditors: Array<{ id: string; amount: number }> = [];
+
+  net.forEach((amount, memberId) => {
+    if (amount < 0) {
+      debtors.push({ id: memberId, amount: -amount });
+    } else if (amount > 0) {
+      creditors.push({ id: memberId, amount });
+    }
+  });
+
+  const byAmountThenId = (a: { id: string; amount: number }, b: { id: string; amount: number }) =>
+    b.amount - a.amount || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  debtors.sort(byAmountThenId);
+  creditors.sort(byAmountThenId);
+
+  const transfers: Transfer[] = [];
+  debtors.forEach((debtor) => {
+    creditors.forEach((creditor) => {
+      if (debtor.amount === 0 || creditor.amount === 0 || !isAllowed(debtor.id, creditor.id)) return;
+      const units = Math.min(debtor.amount, creditor.amount);
+      transfers.push({ from: debtor.id, to: creditor.id, units });
+      debtor.amount -= units;
+      creditor.amount -= units;
+    });
+  });
+
+  return debtors.some((debtor) => debtor.amount > 0) ? null : transfers;
+};
+
+/**
+ * Finds the plan with the fewest transfers. A group of k members that nets to
+ * zero needs k - 1 transfers if its members can be connected through allowed
+ * pairs, so the best plan splits everyone into as many such groups as possible.
+ * Returns null when the forbidden pairs leave no way to settle.
+ */
+const planExact = (
+  members: string[],
+  net: Map<string, number>,
+  isAllowed: (a: string, b: string) => boolean
+): Transfer[] | null => {
+  const size = 1 << members.length;
+  const sums = new Array<number>(size).fill(0);
+  for (let mask = 1; mask < size; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + (net.get(members[lowestBitIndex(mask)]) || 0);
+  }
+
+  const connected: Map<number, boolean> = new Map();
+  const isConnected = (mask: number): boolean => {
+    let result = connected.get(mask);
+    if (result === undefined) {
+      let reached = mask & -mask;
+      const queue = [lowestBitIndex(mask)];
+      while (queue.length > 0) {
+        const current = queue.pop() as number;
+        for (let i = 0; i < members.length; i++) {
+          const bit = 1 << i;
+          if (mask & bit && !(reached & bit) && isAllowed(members[current], members[i])) {
+            reached |= bit;
+            queue.push(i);
+          }
+        }
+      }
+      result = reached === mask;
+      connected.set(mask, result);
+    }
+    return result;
+  };
+
+  const best = new Array<number>(size).fill(Infinity);
+  const choice = new Array<number>(size).fill(0);
+  best[0] = 0;
+
+  for (let mask = 1; mask < size; mask++) {
+    // The group containing the lowest member is chosen first so each
+    // partition is only considered once
+    const low = mask & -mask;
+    const rest = mask ^ low;
+    for (let sub = rest; ; sub = (sub - 1) & rest) {
+      const group = sub | low;
+      const cost = best[mask ^ group] + countBits(group) - 1;
+      if (cost < best[mask] && sums[group] === 0 && isConnected(group)) {
+        best[mask] = cost;
+        choice[mask] = group;
+      }
+      if (sub === 0) break;
+    }
+  }
+
+  if (best[size - 1] === Infinity) return null;
+
+  const transfers: Transfer[] = [];
+  for (let mask = size - 1; mask; mask ^= choice[mask]) {
+    // Direct debtor-to-creditor payments read better than relaying through the
+    // tree, and take at most k - 1 transfers whenever they get everyone even
+    const group = members.filter((_, i) => choice[mask] & (1 << i));
+    const groupNet: Map<string, number> = new Map(group.map((memberId) => [memberId, net.get(memberId) || 0]));
+    transfers.push(...(planGreedy(groupNet, isAllowed) || settleGroup(group, net, isAllowed)));
+  }
+  return transfers;
+};
+
+/**
+ * Plans the payments that settle every balance in the group, honouring the
+ * given constraints. With a hub, every debtor pays the hub and the hub pays
+ * every creditor; otherwise the plan uses the fewest transfers that avoid the
+ * forbidden pairs. When no plan fits the constraints, `feasible` is false and
+ * `reason` says why; if only the transfer cap is exceeded, the best plan found
+ * is still returned.
+ */
+export const planSettlements = (
+  balances: Balance[],
+  constraints: SettlementConstraints = {},
+  baseCurrency: string = DEFAULT_CURRENCY
+): SettlementPlan => {
+  const net = getNetBalances(balances, baseCurrency);
+  const forbidden = new Set((constraints.forbiddenPairs || []).map(([a, b]) => pairKey(a, b)));
+  const isAllowed = (a: string, b: string) => a !== b && !forbidden.has(pairKey(a, b));
+  const members = Array.from(net.keys()).sort();
+
+  let transfers: Transfer[] | null;
+  let reason: string | undefined;
+
+  if (constraints.hub) {
+    const hub = constraints.hub;
+    transfers = [];
+    for (const memberId of members) {
+      const units = net.get(memberId) || 0;
+      if (memberId === hub || units === 0) continue;
+      if (!isAllowed(memberId, hub)) {
+        transfers = null;
+        reason = 'The hub is not allowed to transact with every member who has a balance.';
+        break;
+      }
+      transfers.push(units < 0 ? { from: memberId, to: hub, units: -units } : { from: hub, to: memberId, units });
+    }
+  } else {
+    // Members who are already even can still relay a payment between a forbidden pair
+    const candidates = members.length > MAX_EXACT_MEMBERS
+      ? members.filter((memberId) => net.get(memberId) !== 0)
+      : members;
+    transfers = candidates.length > MAX_EXACT_MEMBERS
+      ? planGreedy(net, isAllowed)
+      : planExact(candidates, net, isAllowed);
+    if (!transfers) {
+      reason = 'The forbidden pairs leave no way to settle every balance.';
+    }
+  }
+
+  const settlements: Settlement[] = (transfers || []).map((transfer) => ({
+    from: transfer.from,
+    to: transfer.to,
+    amount: fromMinorUnits(transfer.units, baseCurrency),
+  }));
+
+  if (transfers && constraints.maxTransfers !== undefined && settlements.length > constraints.maxTransfers) {
+    reason = `Settling up this way takes ${settlements.length} transfers, more than the limit of ${constraints.maxTransfers}.`;
+  }
+
+  return { settlements, feasible: !reason, reason };
+};
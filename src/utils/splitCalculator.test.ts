@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { Expense } from '../types';
+import { getExpensePayerCents, getExpenseShareCents, getExpenseShares, validatePayers, validateSplit } from './splitCalculator';
+
+type SplitExpense = Pick<Expense, 'amount' | 'currency' | 'paidBy' | 'payers' | 'sharedWith' | 'splitType' | 'splits' | 'items' | 'tax' | 'tip'>;
+
+const expense = (fields: Partial<SplitExpense>): SplitExpense => ({
+  amount: 100,
+  paidBy: 'a',
+  sharedWith: ['a', 'b', 'c'],
+  ...fields,
+});
+
+const shareCents = (fields: Partial<SplitExpense>, baseCurrency?: string) =>
+  Object.fromEntries(getExpenseShareCents(expense(fields), baseCurrency));
+
+describe('getExpenseShareCents', () => {
+  it('splits older expenses without a split type equally', () => {
+    expect(shareCents({ amount: 10 })).toEqual({ a: 334, b: 333, c: 333 });
+  });
+
+  it('splits equally, with the leftover penny going by UID', () => {
+    expect(shareCents({ amount: 10, splitType: 'equal', sharedWith: ['c', 'b', 'a'] })).toEqual({ a: 334, b: 333, c: 333 });
+  });
+
+  it('uses exact amounts as given', () => {
+    expect(shareCents({ splitType: 'exact', splits: { a: 12.5, b: 37.5, c: 50 } })).toEqual({ a: 1250, b: 3750, c: 5000 });
+  });
+
+  it('splits by percentage', () => {
+    expect(shareCents({ amount: 10, splitType: 'percentage', splits: { a: 50, b: 25, c: 25 } })).toEqual({ a: 500, b: 250, c: 250 });
+    expect(shareCents({ amount: 0.01, splitType: 'percentage', splits: { a: 33.34, b: 33.33, c: 33.33 } })).toEqual({ a: 1, b: 0, c: 0 });
+  });
+
+  it('splits by shares', () => {
+    expect(shareCents({ amount: 100, splitType: 'shares', splits: { a: 1, b: 2, c: 0 } })).toEqual({ a: 3333, b: 6667, c: 0 });
+  });
+
+  it('splits itemized receipts, spreading tax and tip by subtotal', () => {
+    const shares = shareCents({
+      amount: 39,
+      splitType: 'itemized',
+      items: [
+        { name: 'Pizza', amount: 20, assignedTo: ['a', 'b'] },
+        { name: 'Salad', amount: 10, assignedTo: ['c'] },
+      ],
+      tax: 3,
+      tip: 6,
+    });
+    // Subtotals of 10, 10 and 10 each take a third of the 9.00 in tax and tip
+    expect(shares).toEqual({ a: 1300, b: 1300, c: 1300 });
+  });
+
+  it('allocates uneven itemized tax and tip without losing a penny', () => {
+    const shares = shareCents({
+      amount: 11.01,
+      splitType: 'itemized',
+      items: [
+        { name: 'Fries', amount: 5, assignedTo: ['a', 'b', 'c'] },
+        { name: 'Drink', amount: 4, assignedTo: ['b'] },
+      ],
+      tax: 0.67,
+      tip: 1.34,
+    });
+    expect(shares).toEqual({ a: 204, b: 694, c: 203 });
+    expect(Object.values(shares).reduce((total, cents) => total + cents, 0)).toBe(1101);
+  });
+
+  it('works in the expense currency\'s minor units', () => {
+    expect(shareCents({ amount: 1000, currency: 'JPY' })).toEqual({ a: 334, b: 333, c: 333 });
+    expect(shareCents({ amount: 1000 }, 'JPY')).toEqual({ a: 334, b: 333, c: 333 });
+    expect(shareCents({ amount: 1.001, currency: 'KWD' })).toEqual({ a: 334, b: 334, c: 333 });
+  });
+
+  it('returns decimal shares from getExpenseShares', () => {
+    expect(Object.fromEntries(getExpenseShares(expense({ amount: 10 })))).toEqual({ a: 3.34, b: 3.33, c: 3.33 });
+  });
+});
+
+describe('getExpensePayerCents', () => {
+  it('credits the whole amount to a single payer', () => {
+    expect(Object.fromEntries(getExpensePayerCents(expense({ amount: 42.5 })))).toEqual({ a: 4250 });
+  });
+
+  it('credits each of several payers with what they paid', () => {
+    const payers = getExpensePayerCents(expense({ amount: 90, paidBy: 'b', payers: { a: 30, b: 60 } }));
+    expect(Object.fromEntries(payers)).toEqual({ a: 3000, b: 6000 });
+  });
+});
+
+describe('validateSplit', () => {
+  it('accepts equal splits with someone to share with', () => {
+    expect(validateSplit(expense({}))).toBeNull();
+    expect(validateSplit(expense({ sharedWith: [] }))).toMatch(/at least one member/);
+  });
+
+  it('requires exact amounts to add up to the total', () => {
+    expect(validateSplit(expense({ splitType: 'exact', splits: { a: 50, b: 25, c: 25 } }))).toBeNull();
+    expect(validateSplit(expense({ splitType: 'exact', splits: { a: 50, b: 25, c: 24.99 } }))).toMatch(/add up to \$99\.99/);
+    expect(validateSplit(expense({ splitType: 'exact', splits: { a: 50, b: 50, d: 0 } }))).toMatch(/members sharing/);
+  });
+
+  it('requires percentages to add up to 100', () => {
+    expect(validateSplit(expense({ splitType: 'percentage', splits: { a: 33.33, b: 33.33, c: 33.34 } }))).toBeNull();
+    expect(validateSplit(expense({ splitType: 'percentage', splits: { a: 50, b: 40, c: 5 } }))).toMatch(/95\.00%/);
+  });
+
+  it('requires at least one share', () => {
+    expect(validateSplit(expense({ splitType: 'shares', splits: { a: 0, b: 0, c: 0 } }))).toMatch(/at least one member/i);
+  });
+
+  it('requires items, tax and tip to add up to the total', () => {
+    const items = [{ name: 'Pizza', amount: 20, assignedTo: ['a', 'b'] }];
+    expect(validateSplit(expense({ amount: 23, splitType: 'itemized', items, tax: 1, tip: 2 }))).toBeNull();
+    expect(validateSplit(expense({ amount: 25, splitType: 'itemized', items, tax: 1, tip: 2 }))).toMatch(/add up to \$23\.00/);
+    expect(validateSplit(expense({ amount: 20, splitType: 'itemized', items: [{ ...items[0], assignedTo: ['d'] }] }))).toMatch(/not sharing/);
+  });
+
+  it('checks three-decimal currencies to the fils', () => {
+    const splits = { a: 0.335, b: 0.335, c: 0.335 };
+    expect(validateSplit(expense({ amount: 1.005, currency: 'KWD', splitType: 'exact', splits }))).toBeNull();
+    expect(validateSplit(expense({ amount: 1.005, splitType: 'exact', splits }), 'KWD')).toBeNull();
+  });
+});
+
+describe('validatePayers', () => {
+  it('accepts payers that add up to the total', () => {
+    expect(validatePayers(expense({ amount: 90, paidBy: 'b', payers: { a: 30, b: 60 } }))).toBeNull();
+  });
+
+  it('rejects payers that do not add up, or leave out the main payer', () => {
+    expect(validatePayers(expense({ amount: 90, paidBy: 'b', payers: { a: 30, b: 50 } }))).toMatch(/paid \$80\.00/);
+    expect(validatePayers(expense({ amount: 90, paidBy: 'c', payers: { a: 30, b: 60 } }))).toMatch(/main payer/);
+    expect(validatePayers(expense({ amount: 90, paidBy: 'a', payers: { a: 90, b: 0 } }))).toMatch(/more than 0/);
+  });
+});
@@ -0,0 +1,230 @@
+import type { Expense, SplitType } from '../types';
+import { allocateCents, fromMinorUnits, toMinorUnits, formatMoney, DEFAULT_CURRENCY } from './money';
+
+type SplitInput = Pick<Expense, 'amount' | 'currency' | 'sharedWith' | 'splitType' | 'splits' | 'items' | 'tax' | 'tip'>;
+type PayerInput = Pick<Expense, 'amount' | 'currency' | 'paidBy' | 'payers'>;
+
+export const SPLIT_TYPE_LABELS: Record<SplitType, string> = {
+  equal: 'Equally',
+  exact: 'Exact amounts',
+  percentage: 'By percentage',
+  shares: 'By shares',
+  itemized: 'Itemized',
+};
+
+/**
+ * Returns true if the split type stores a per-member value in `splits`
+ */
+export const usesSplitValues = (splitType: SplitType = 'equal'): boolean => {
+  return splitType === 'exact' || splitType === 'percentage' || splitType === 'shares';
+};
+
+// Expenses without a currency are in the group's base currency
+const getExpenseCurrency = (expense: Pick<Expense, 'currency'>, baseCurrency: string) =>
+  expense.currency || baseCurrency;
+
+/**
+ * Resolves an itemized receipt into per-member minor units. Each line item is
+ * split equally between the members it is assigned to, then tax and tip are
+ * spread in proportion to each member's subtotal.
+ */
+const getItemizedShareCents = (expense: SplitInput, currency: string): Map<string, number> => {
+  const subtotals = new Map<string, number>();
+  expense.sharedWith.forEach((memberId) => subtotals.set(memberId, 0));
+
+  (expense.items || []).forEach((item) => {
+    const weights = new Map<string, number>();
+    item.assignedTo.forEach((memberId) => weights.set(memberId, 1));
+    allocateCents(toMinorUnits(item.amount, currency), weights).forEach((cents, memberId) => {
+      subtotals.set(memberId, (subtotals.get(memberId) || 0) + cents);
+    });
+  });
+
+  const extras = allocateCents(toMinorUnits(expense.tax || 0, currency) + toMinorUnits(expense.tip || 0, currency), subtotals);
+  const shares = new Map<string, number>();
+  subtotals.forEach((subtotal, memberId) => {
+    shares.set(memberId, subtotal + (extras.get(memberId) || 0));
+  });
+  return shares;
+};
+
+/**
+ * Returns how much each participant owes for an expense, in integer minor
+ * units of its currency (cents for USD). Expenses without a split type are
+ * split equally. The shares always add up to the expense total; see
+ * allocateCents for how leftover pennies are assigned.
+ */
+export const getExpenseShareCents = (expense: SplitInput, baseCurrency: string = DEFAULT_CURRENCY): Map<string, number> => {
+  const currency = getExpenseCurrency(expense, baseCurrency);
+  const splitType: SplitType = expense.splitType || 'equal';
+  const splits = expense.splits || {};
+
+  if (splitType === 'itemized') {
+    return getItemizedShareCents(expense, currency);
+  }
+
+  if (splitType === 'exact') {
+    const shares = new Map<string, number>();
+    expense.sharedWith.forEach((memberId) => {
+      shares.set(memberId, toMinorUnits(splits[memberId] || 0, currency));
+    });
+    return shares;
+  }
+
+  const weights = new Map<string, number>();
+  expense.sharedWith.forEach((memberId) => {
+    weights.set(memberId, splitType === 'equal' ? 1 : splits[memberId] || 0);
+  });
+  const allocation = allocateCents(toMinorUnits(expense.amount, currency), weights);
+
+  // Keep the participants in the order they were added to the expense
+  const shares = new Map<string, number>();
+  expense.sharedWith.forEach((memberId) => {
+    shares.set(memberId, allocation.get(memberId) || 0);
+  });
+  return shares;
+};
+
+/**
+ * Returns how much each participant owes for an expense.
+ */
+export const getExpenseShares = (expense: SplitInput, baseCurrency: string = DEFAULT_CURRENCY): Map<string, number> => {
+  const currency = getExpenseCurrency(expense, baseCurrency);
+  const shares = new Map<string, number>();
+  getExpenseShareCents(expense, baseCurrency).forEach((cents, memberId) => {
+    shares.set(memberId, fromMinorUnits(cents, currency));
+  });
+  return shares;
+};
+
+/**
+ * Returns how much each payer contributed to an expense, in integer minor
+ * units of its currency.
+ */
+export const getExpensePayerCents = (expense: PayerInput, baseCurrency: string = DEFAULT_CURRENCY): Map<string, number> => {
+  const currency = getExpenseCurrency(expense, baseCurrency);
+  const payerCents = new Map<string, number>();
+  if (expense.payers && Object.keys(expense.payers).length > 0) {
+    Object.entries(expense.payers).forEach(([memberId, amount]) => {
+      payerCents.set(memberId, toMinorUnits(amount, currency));
+    });
+  } else {
+    payerCents.set(expense.paidBy, toMinorUnits(expense.amount, currency));
+  }
+  return payerCents;
+};
+
+/**
+ * Checks that the payer contributions add up to the expense total.
+ * Returns an error message, or null if the payers are valid.
+ */
+export const validatePayers = (expense: PayerInput, baseCurrency: string = DEFAULT_CURRENCY): string | null => {
+  const currency = getExpenseCurrency(expense, baseCurrency);
+  if (!expense.payers) {
+    return expense.paidBy ? null : 'Choose who paid for the expense';
+  }
+
+  let totalCents = 0;
+  for (const amount of Object.values(expense.payers)) {
+    if (isNaN(amount) || amount <= 0) {
+      return 'Each payer must have paid more than 0';
+    }
+    totalCents += toMinorUnits(amount, currency);
+  }
+
+  if (!(expense.paidBy in expense.payers)) {
+    return 'The main payer must be one of the payers';
+  }
+
+  if (totalCents !== toMinorUnits(expense.amount, currency)) {
+    return `Payers paid ${formatMoney(fromMinorUnits(totalCents, currency), currency)} but the expense total is ${formatMoney(expense.amount, currency)}`;
+  }
+
+  return null;
+};
+
+const validateItemizedSplit = (expense: SplitInput, currency: string): string | null => {
+  const items = expense.items || [];
+  if (items.length === 0) {
+    return 'Add at least one line item';
+  }
+
+  let totalCents = 0;
+  for (const item of items) {
+    if (!item.name.trim()) {
+      return 'Every line item needs a name';
+    }
+    if (isNaN(item.amount) || item.amount <= 0) {
+      return `"${item.name}" needs an amount greater than 0`;
+    }
+    if (item.assignedTo.length === 0) {
+      return `"${item.name}" is not assigned to anyone`;
+    }
+    if (item.assignedTo.some((memberId) => !expense.sharedWith.includes(memberId))) {
+      return `"${item.name}" is assigned to someone not sharing the expense`;
+    }
+    totalCents += toMinorUnits(item.amount, currency);
+  }
+
+  const tax = expense.tax || 0;
+  const tip = expense.tip || 0;
+  if (isNaN(tax) || isNaN(tip) || tax < 0 || tip < 0) {
+    return 'Tax and tip cannot be negative';
+  }
+  totalCents += toMinorUnits(tax, currency) + toMinorUnits(tip, currency);
+
+  if (totalCents !== toMinorUnits(expense.amount, currency)) {
+    return `Items, tax and tip add up to ${formatMoney(fromMinorUnits(totalCents, currency), currency)} but the expense total is ${formatMoney(expense.amount, currency)}`;
+  }
+
+  return null;
+};
+
+/**
+ * Checks that a split is consistent with the expense total.
+ * Returns an error message, or null if the split is valid.
+ */
+export const validateSplit = (expense: SplitInput, baseCurrency: string = DEFAULT_CURRENCY): string | null => {
+  const currency = getExpenseCurrency(expense, baseCurrency);
+  if (expense.sharedWith.length === 0) {
+    return 'An expense must be shared with at least one member';
+  }
+
+  const splitType: SplitType = expense.splitType || 'equal';
+  if (splitType === 'equal') {
+    return null;
+  }
+
+  if (splitType === 'itemized') {
+    return validateItemizedSplit(expense, currency);
+  }
+
+  const splits = expense.splits || {};
+  const outsiders = Object.keys(splits).filter((memberId) => !expense.sharedWith.includes(memberId));
+  if (outsiders.length > 0) {
+    return 'Split values can only be assigned to members sharing the expense';
+  }
+
+  let total = 0;
+  for (const memberId of expense.sharedWith) {
+    const value = splits[memberId] || 0;
+    if (isNaN(value) || value < 0) {
+      return 'Split values cannot be negative';
+    }
+    total += splitType === 'exact' ? toMinorUnits(value, currency) : value;
+  }
+
+  if (splitType === 'exact' && total !== toMinorUnits(expense.amount, currency)) {
+    return `Split amounts add up to ${formatMoney(fromMinorUnits(total, currency), currency)} but the expense total is ${formatMoney(expense.amount, currency)}`;
+  }
+
+  if (splitType === 'percentage' && Math.abs(total - 100) >= 0.005) {
+    return `Percentages add up to ${total.toFixed(2)}% instead of 100%`;
+  }
+
+  if (splitType === 'shares' && total <= 0) {
+    return 'At least one member must have a share';
+  }
+
+  return null;
+};
@@ -0,0 +1,345 @@
+import type { Expense, ExchangeRate, Payment } from '../types';
+import { parseCsv } from './csv';
+import { getExpensePayerCents, getExpenseShareCents, validatePayers, validateSplit } from './splitCalculator';
+import { findEffectiveRate } from './exchangeRates';
+import { BUILT_IN_CATEGORIES, DEFAULT_CATEGORY } from './categories';
+import type { Category } from './categories';
+import { fromMinorUnits, toMinorUnits } from './money';
+
+// A Splitwise group export has one column per person after these, holding
+// what that person paid minus their share (positive when they are owed)
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency'];
+const TOTAL_BALANCE = 'total balance';
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface SplitwiseRow {
+  rowNumber: number; // 1-based row in the file, for pointing people at problems
+  date: Date | null; // Null when the date couldn't be read
+  description: string;
+  category: string;
+  cost: number; // In minor units of `currency`
+  currency: string;
+  nets: number[]; // Minor units per person column, paid minus share
+  isPayment: boolean;
+  key: string; // Row content, used to derive stable document ids
+}
+
+export interface SplitwiseExport {
+  people: string[]; // Person column headers, in file order
+  rows: SplitwiseRow[];
+  totals: { [currency: string]: number[] }; // Minor units per person from the "Total balance" rows
+}
+
+/**
+ * Reads a Splitwise group CSV export. Throws if the file doesn't have the
+ * Splitwise header; problems with individual rows are left for
+ * buildImportPlan to report.
+ */
+export const parseSplitwiseCsv = (text: string): SplitwiseExport => {
+  const records = parseCsv(text);
+  const headerIndex = records.findIndex((record) =>
+    SPLITWISE_COLUMNS.every((column, i) => record[i]?.trim().toLowerCase() === column)
+  );
+  if (headerIndex === -1) {
+    throw new Error('This file is not a Splitwise export. Export it from the group page in Splitwise as CSV.');
+  }
+
+  const header = records[headerIndex];
+  let personCount = header.length;
+  while (personCount > SPLITWISE_COLUMNS.length && !header[personCount - 1].trim()) personCount--;
+  const people = header.slice(SPLITWISE_COLUMNS.length, personCount).map((name) => name.trim());
+  if (people.length === 0) {
+    throw new Error('The Splitwise export has no person columns');
+  }
+
+  const toAmountCents = (value: string, currency: string) => {
+    const amount = parseFloat(value.replace(/,/g, ''));
+    return isNaN(amount) ? 0 : toMinorUnits(amount, currency);
+  };
+
+  const rows: SplitwiseRow[] = [];
+  const totals: SplitwiseExport['totals'] = {};
+  records.slice(headerIndex + 1).forEach((record, i) => {
+    if (record.every((field) => !field.trim())) return;
+
+    const [date = '', description = '', category = '', cost = '', currency = ''] = record.map((field) => field.trim());
+    const currencyCode = currency.toUpperCase();
+    const nets = people.map((_, column) => toAmountCents(record[SPLITWISE_COLUMNS.length + column] || '', currencyCode));
+
+    if (description.toLowerCase() === TOTAL_BALANCE) {
+      totals[currencyCode] = nets;
+      return;
+    }
+
+    rows.push({
+      rowNumber: headerIndex + i + 2,
+      date: DATE_PATTERN.test(date) ? new Date(`${date}T00:00:00`) : null,
+      description,
+      category,
+      cost: toAmountCents(cost, currencyCode),
+      currency: currencyCode,
+      nets,
+      isPayment: category.toLowerCase() === 'payment',
+      key: record.join('\u001f'),
+    });
+  });
+
+  return { people, rows, totals };
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Suggests a group member for each person column: an exact name match first,
+ * then a member whose first name matches. Columns without a match, or whose
+ * match was already taken, map to an empty string.
+ */
+export const guessMemberMapping = (
+  people: string[],
+  members: Array<{ uid: string; name: string }>
+): string[] => {
+  const taken = new Set<string>();
+  const claim = (uid: string | undefined) => {
+    if (!uid || taken.has(uid)) return '';
+    taken.add(uid);
+    return uid;
+  };
+
+  const exact = people.map((person) =>
+    claim(members.find((member) => normalizeName(member.name) === normalizeName(person))?.uid)
+  );
+  return exact.map((uid, column) => {
+    if (uid) return uid;
+    const firstName = normalizeName(people[column]).split(' ')[0];
+    return claim(members.find((member) => normalizeName(member.name).split(' ')[0] === firstName)?.uid);
+  });
+};
+
+// Splitwise category names, matched by keyword onto the built-in categories
+const CATEGORY_KEYWORDS: Array<[string, string[]]> = [
+  ['groceries', ['groceries']],
+  ['food', ['dining', 'food', 'liquor', 'restaurant']],
+  ['rent', ['rent', 'mortgage']],
+  ['utilities', ['electricity', 'heat', 'water', 'internet', 'phone', 'utilities', 'trash', 'cleaning']],
+  ['transport', ['car', 'fuel', 'parking', 'taxi', 'bus', 'train', 'bicycle', 'transportation']],
+  ['travel', ['plane', 'hotel', 'travel']],
+  ['entertainment', ['movies', 'games', 'music', 'sports', 'entertainment']],
+  ['shopping', ['clothing', 'household', 'electronics', 'furniture', 'gifts']],
+  ['health', ['medical', 'health']],
+];
+
+/**
+ * Maps a Splitwise category onto one of the group's categories. Custom
+ * categories with the same name win over the keyword match.
+ */
+export const mapSplitwiseCategory = (category: string, categories: Category[] = BUILT_IN_CATEGORIES): string => {
+  const name = normalizeName(category);
+  const sameName = categories.find((option) => normalizeName(option.label) === name || option.id === name);
+  if (sameName) return sameName.id;
+
+  const words = name.split(/[^a-z]+/);
+  const match = CATEGORY_KEYWORDS.find(([, keywords]) => keywords.some((keyword) => words.includes(keyword)));
+  return match ? match[0] : DEFAULT_CATEGORY;
+};
+
+// Two 32-bit FNV-1a style hashes as hex, enough to tell rows apart within a group
+const hashText = (text: string): string => {
+  let high = 0x811c9dc5;
+  let low = 0x050c5d1f;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    high = Math.imul(high ^ code, 0x01000193) >>> 0;
+    low = Math.imul(low ^ code, 0x5bd1e995) >>> 0;
+  }
+  return high.toString(16).padStart(8, '0') + low.toString(16).padStart(8, '0');
+};
+
+export type ImportedExpense = Omit<Expense, 'createdAt'>;
+export type ImportedPayment = Omit<Payment, 'createdAt'>;
+
+export interface ImportProblem {
+  rowNumber: number;
+  description: string;
+  message: string;
+}
+
+export interface SplitwiseImportPlan {
+  expenses: ImportedExpense[];
+  payments: ImportedPayment[];
+  problems: ImportProblem[]; // Rows that won't be imported, and why
+}
+
+export interface ImportPlanOptions {
+  groupId: string;
+  userId: string; // Recorded as the creator of every imported entry
+  baseCurrency: string;
+  exchangeRates: ExchangeRate[];
+  categories: Category[];
+}
+
+/**
+ * Turns a Splitwise export into expenses and payments, given the group member
+ * each person column maps to (empty for unmapped columns).
+ *
+ * Splitwise only exports each person's net for a row, so expenses are
+ * rebuilt as exact splits that produce the same nets: everyone with a
+ * positive net paid that much, everyone with a negative net owes that much,
+ * and whatever is left of the cost was paid for and consumed by the largest
+ * payer. Document ids are derived from the row content, so importing a newer
+ * export of the same group yields the same ids for rows seen before.
+ */
+export const buildImportPlan = (
+  file: SplitwiseExport,
+  mapping: string[],
+  options: ImportPlanOptions
+): SplitwiseImportPlan => {
+  const plan: SplitwiseImportPlan = { expenses: [], payments: [], problems: [] };
+  const seenKeys = new Map<string, number>();
+
+  file.rows.forEach((row) => {
+    const occurrence = seenKeys.get(row.key) || 0;
+    seenKeys.set(row.key, occurrence + 1);
+    const id = `splitwise_${hashText(`${options.groupId}\u001f${row.key}\u001f${occurrence}`)}`;
+    const skip = (message: string) => {
+      plan.problems.push({ rowNumber: row.rowNumber, description: row.description, message });
+    };
+
+    if (!row.date) return skip('The date could not be read');
+    if (!row.currency) return skip('The row has no currency');
+    if (row.cost <= 0) return skip('Only expenses with a positive cost can be imported');
+
+    const involved = row.nets.map((net, column) => ({ net, column })).filter(({ net }) => net !== 0);
+    if (involved.length === 0) return skip('Nobody owes anything for this row');
+    if (involved.reduce((sum, { net }) => sum + net, 0) !== 0) return skip('The balances in this row do not add up to zero');
+
+    const unmapped = involved.filter(({ column }) => !mapping[column]);
+    if (unmapped.length > 0) {
+      return skip(`${unmapped.map(({ column }) => file.people[column]).join(', ')} is not mapped to a group member`);
+    }
+
+    let exchangeRate = 1;
+    if (row.currency !== options.baseCurrency) {
+      const rate = findEffectiveRate(options.exchangeRates, row.currency, options.baseCurrency, row.date);
+      if (rate === null) {
+        return skip(`No ${row.currency} to ${options.baseCurrency} exchange rate is effective on ${row.date.toLocaleDateString()}`);
+      }
+      exchangeRate = rate;
+    }
+
+    const positives = involved.filter(({ net }) => net > 0).sort((a, b) => b.net - a.net || a.column - b.column);
+    const negatives = involved.filter(({ net }) => net < 0);
+    const owedTotal = positives.reduce((sum, { net }) => sum + net, 0);
+
+    if (row.isPayment) {
+      if (positives.length !== 1 || negatives.length !== 1) {
+        return skip('A payment must be between exactly two people');
+      }
+      plan.payments.push({
+        id,
+        groupId: options.groupId,
+        from: mapping[positives[0].column],
+        to: mapping[negatives[0].column],
+        amount: fromMinorUnits(owedTotal, row.currency),
+        currency: row.currency,
+        exchangeRate,
+        paymentMethod: 'other',
+        note: row.description || undefined,
+        date: row.date,
+        createdBy: options.userId,
+      });
+      return;
+    }
+
+    if (owedTotal > row.cost) return skip('People are owed more than the cost of the expense');
+
+    const remainder = row.cost - owedTotal;
+    const mainPayer = mapping[positives[0].column];
+    const payers: { [userId: string]: number } = {};
+    positives.forEach(({ net, column }) => {
+      payers[mapping[column]] = fromMinorUnits(net + (column === positives[0].column ? remainder : 0), row.currency);
+    });
+    const splits: { [userId: string]: number } = {};
+    negatives.forEach(({ net, column }) => {
+      splits[mapping[column]] = fromMinorUnits(-net, row.currency);
+    });
+    if (remainder > 0) splits[mainPayer] = fromMinorUnits(remainder, row.currency);
+
+    const expense: ImportedExpense = {
+      id,
+      groupId: options.groupId,
+      title: row.description || 'Splitwise expense',
+      category: mapSplitwiseCategory(row.category, options.categories),
+      amount: fromMinorUnits(row.cost, row.currency),
+      currency: row.currency,
+      exchangeRate,
+      paidBy: mainPayer,
+      sharedWith: Object.keys(splits),
+      splitType: 'exact',
+      splits,
+      date: row.date,
+      createdBy: options.userId,
+    };
+    if (positives.length > 1) expense.payers = payers;
+
+    const splitError = validateSplit(expense) || validatePayers(expense);
+    if (splitError) return skip(splitError);
+    plan.expenses.push(expense);
+  });
+
+  return plan;
+};
+
+export interface ReconciliationLine {
+  person: string; // Person column header
+  currency: string;
+  expected: number; // Minor units, from the file's "Total balance" row
+  imported: number; // Minor units, from the planned expenses and payments
+}
+
+/**
+ * Compares each person's balance per currency in the file with the balance
+ * the planned records produce. Currencies without a "Total balance" row are
+ * checked against the sum of their rows instead.
+ */
+export const reconcileImport = (
+  file: SplitwiseExport,
+  mapping: string[],
+  plan: SplitwiseImportPlan
+): ReconciliationLine[] => {
+  const expected = new Map<string, number[]>();
+  Object.entries(file.totals).forEach(([currency, nets]) => expected.set(currency, nets));
+  file.rows.forEach((row) => {
+    if (row.currency in file.totals) return;
+    const sums = expected.get(row.currency) || file.people.map(() => 0);
+    expected.set(row.currency, sums.map((sum, column) => sum + row.nets[column]));
+  });
+
+  const imported = new Map<string, number>(); // Keyed by currency and member
+  const add = (currency: string, memberId: string, cents: number) => {
+    const key = `${currency}\u001f${memberId}`;
+    imported.set(key, (imported.get(key) || 0) + cents);
+  };
+  plan.expenses.forEach((expense) => {
+    const currency = expense.currency || '';
+    getExpensePayerCents(expense).forEach((cents, memberId) => add(currency, memberId, cents));
+    getExpenseShareCents(expense).forEach((cents, memberId) => add(currency, memberId, -cents));
+  });
+  plan.payments.forEach((payment) => {
+    const currency = payment.currency || '';
+    add(currency, payment.from, toMinorUnits(payment.amount, currency));
+    add(currency, payment.to, -toMinorUnits(payment.amount, currency));
+  });
+
+  const lines: ReconciliationLine[] = [];
+  Array.from(expected.keys()).sort().forEach((currency) => {
+    file.people.forEach((person, column) => {
+      lines.push({
+        person,
+        currency,
+        expected: expected.get(currency)?.[column] || 0,
+        imported: mapping[column] ? imported.get(`${currency}\u001f${mapping[column]}`) || 0 : 0,
+      });
+    });
+  });
+  return lines;
+};
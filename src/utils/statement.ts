@@ -0,0 +1,122 @@
+import type { Expense, Payment } from '../types';
+import { calculateBalances, getExpenseNetUnits, getNetBalances, toBaseUnits } from './balanceCalculator';
+import type { BalanceOptions } from './balanceCalculator';
+import { getExpensePayerCents, getExpenseShareCents } from './splitCalculator';
+import { allocateCents, fromMinorUnits, DEFAULT_CURRENCY } from './money';
+
+const MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+export type StatementLine =
+  | { type: 'expense'; date: Date; expense: Expense; share: number; paid: number; change: number }
+  | { type: 'payment'; date: Date; payment: Payment; change: number };
+
+export interface MemberStatement {
+  memberId: string;
+  month: string; // YYYY-MM
+  periodStart: Date; // First moment of the month
+  periodEnd: Date; // First moment of the next month, exclusive
+  openingBalance: number; // Net position before the month: positive when owed money, negative when owing
+  lines: StatementLine[]; // Oldest first; `change` is how each one moved the balance
+  totalShare: number;
+  totalPaid: number; // Paid towards expenses
+  paymentsMade: number;
+  paymentsReceived: number;
+  closingBalance: number; // Opening balance plus every line's change
+}
+
+// Whether a string is a valid YYYY-MM month
+export const isMonthKey = (value: string): boolean => MONTH_PATTERN.test(value);
+
+/**
+ * Builds one member's statement for a month from the expenses and payments
+ * calculateBalances takes, with exchange rates already applied. The opening
+ * and closing balances are the member's net position from calculateBalances
+ * over everything dated before the month and before the next one.
+ */
+export const buildMemberStatement = (
+  expenses: Expense[],
+  payments: Payment[],
+  memberId: string,
+  month: string,
+  options: BalanceOptions = {}
+): MemberStatement => {
+  const match = MONTH_PATTERN.exec(month);
+  if (!match) {
+    throw new Error('Month must be in YYYY-MM format');
+  }
+  const baseCurrency = options.baseCurrency || DEFAULT_CURRENCY;
+  const periodStart = new Date(Number(match[1]), Number(match[2]) - 1, 1);
+  const periodEnd = new Date(Number(match[1]), Number(match[2]), 1);
+
+  // A checkpoint only stands in for the entries before a date it covers
+  const netBefore = (date: Date) => {
+    const checkpoint = options.checkpoint && date >= options.checkpoint.endDate ? options.checkpoint : undefined;
+    const balances = calculateBalances(
+      expenses.filter((expense) => expense.date < date),
+      payments.filter((payment) => payment.date < date),
+      { baseCurrency, checkpoint }
+    );
+    return getNetBalances(balances, baseCurrency).get(memberId) || 0;
+  };
+  const inPeriod = (date: Date) => date >= periodStart && date < periodEnd;
+
+  const lines: Array<{ line: StatementLine; createdAt: Date }> = [];
+  let shareUnits = 0;
+  let paidUnits = 0;
+  let madeUnits = 0;
+  let receivedUnits = 0;
+
+  expenses.filter((expense) => inPeriod(expense.date)).forEach((expense) => {
+    const baseTotal = toBaseUnits(expense.amount, expense, baseCurrency);
+    const share = allocateCents(baseTotal, getExpenseShareCents(expense, baseCurrency)).get(memberId) || 0;
+    const paid = allocateCents(baseTotal, getExpensePayerCents(expense, baseCurrency)).get(memberId) || 0;
+    if (share === 0 && paid === 0) return;
+
+    shareUnits += share;
+    paidUnits += paid;
+    lines.push({
+      line: {
+        type: 'expense',
+        date: expense.date,
+        expense,
+        share: fromMinorUnits(share, baseCurrency),
+        paid: fromMinorUnits(paid, baseCurrency),
+        change: fromMinorUnits(getExpenseNetUnits(expense, baseCurrency).get(memberId) || 0, baseCurrency),
+      },
+      createdAt: expense.createdAt,
+    });
+  });
+
+  payments.filter((payment) => inPeriod(payment.date)).forEach((payment) => {
+    if (payment.from !== memberId && payment.to !== memberId) return;
+
+    const amount = toBaseUnits(payment.amount, payment, baseCurrency);
+    if (payment.from === memberId) madeUnits += amount;
+    else receivedUnits += amount;
+    lines.push({
+      line: {
+        type: 'payment',
+        date: payment.date,
+        payment,
+        change: fromMinorUnits(payment.from === memberId ? amount : -amount, baseCurrency),
+      },
+      createdAt: payment.createdAt,
+    });
+  });
+
+  lines.sort((a, b) => a.line.date.getTime() - b.line.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+
+  return {
+    memberId,
+    month,
+    periodStart,
+    periodEnd,
+    openingBalance: fromMinorUnits(netBefore(periodStart), baseCurrency),
+    lines: lines.map(({ line }) => line),
+    totalShare: fromMinorUnits(shareUnits, baseCurrency),
+    totalPaid: fromMinorUnits(paidUnits, baseCurrency),
+    paymentsMade: fromMinorUnits(madeUnits, baseCurrency),
+    paymentsReceived: fromMinorUnits(receivedUnits, baseCurrency),
+    closingBalance: fromMinorUnits(netBefore(periodEnd), baseCurrency),
+  };
+};